@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Calendar, Clock, Rss } from 'lucide-react';
+import Markdown from './Markdown';
+import Link from './Link';
+import {
+  BLOG_PATH,
+  FEED_PATH,
+  filterPostsByTag,
+  formatPostDate,
+  getLoadedPosts,
+  loadPosts,
+  postHref,
+  postTags,
+  resolvePostUrl,
+  type BlogPost
+} from '../lib/blog';
+import { projectHref, type Project } from '../lib/portfolio';
+import { SITE } from '../lib/site';
+import { useI18n } from '../lib/i18n';
+
+const usePosts = () => {
+  const [posts, setPosts] = useState<BlogPost[] | null>(getLoadedPosts);
+
+  useEffect(() => {
+    let active = true;
+    loadPosts()
+      .then(result => active && setPosts(result))
+      .catch(err => {
+        console.error('Blog Error:', err);
+        if (active) setPosts([]);
+      });
+    return () => { active = false; };
+  }, []);
+
+  return posts;
+};
+
+const tagHref = (tag: string | null) => (tag ? `${BLOG_PATH}?tag=${encodeURIComponent(tag)}` : BLOG_PATH);
+
+const PostMeta = ({ post }: { post: BlogPost }) => {
+  const { locale, t } = useI18n();
+  return (
+    <div className="flex flex-wrap items-center gap-5 text-xs font-bold text-gray-500 uppercase tracking-widest">
+      <span className="flex items-center gap-2"><Calendar size={14} /> {formatPostDate(post.date, locale)}</span>
+      <span className="flex items-center gap-2"><Clock size={14} /> {t('blog.readingTime', { minutes: post.readingMinutes })}</span>
+    </div>
+  );
+};
+
+const TagChip = ({ tag, active = false }: { tag: string; active?: boolean }) => (
+  <Link
+    href={tagHref(active ? null : tag)}
+    className={`px-3 py-1 rounded-lg text-[10px] font-bold tracking-wider border transition-colors ${active ? 'bg-blue-600 border-blue-500 text-on-accent' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'}`}
+  >
+    #{tag}
+  </Link>
+);
+
+export const BlogIndex = ({ tag }: { tag: string | null }) => {
+  const { t } = useI18n();
+  const posts = usePosts();
+  const visible = posts ? filterPostsByTag(posts, tag) : [];
+
+  return (
+    <section className="pt-48 pb-32 container mx-auto px-6 max-w-5xl">
+      <div className="space-y-8 mb-16">
+        <h2 className="text-xs font-black text-blue-500 uppercase tracking-[0.4em]">{t('blog.eyebrow')}</h2>
+        <h1 className="text-3xl sm:text-5xl md:text-7xl font-black tracking-tighter text-white">
+          {t('blog.title')} <span className="gradient-text">{t('blog.titleHighlight')}</span>
+        </h1>
+        <p className="text-gray-400 text-lg max-w-2xl">{t('blog.intro')}</p>
+        <a href={FEED_PATH} className="inline-flex items-center gap-2 text-xs font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors">
+          <Rss size={14} /> {t('blog.feed')}
+        </a>
+      </div>
+
+      {posts && posts.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-12">
+          {postTags(posts).map(({ tag: name, count }) => (
+            <span key={name} className="flex items-center gap-1">
+              <TagChip tag={name} active={name === tag} />
+              <span className="text-[10px] text-gray-600 mono">{count}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {!posts && <p className="text-gray-500">{t('blog.loading')}</p>}
+      {posts && visible.length === 0 && (
+        <p className="text-gray-500">
+          {tag ? <>{t('blog.noneTagged', { tag })} <Link href={BLOG_PATH} className="text-blue-400">{t('blog.seeAll')}</Link>.</> : t('blog.empty')}
+        </p>
+      )}
+
+      <div className="space-y-6">
+        {visible.map(post => (
+          <article key={post.slug} className="glass rounded-[2rem] p-8 sm:p-10 space-y-4 border border-white/5 hover:border-blue-500/40 transition-colors">
+            <PostMeta post={post} />
+            <h3 className="text-2xl sm:text-3xl font-bold tracking-tight text-white hover:text-blue-400 transition-colors">
+              <Link href={postHref(post.slug)}>{post.title}</Link>
+            </h3>
+            <p className="text-gray-400 leading-relaxed">{post.summary}</p>
+            <div className="flex flex-wrap gap-2 pt-2">
+              {post.tags.map(name => <TagChip key={name} tag={name} active={name === tag} />)}
+            </div>
+          </article>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export const BlogPostPage = ({ slug, projects }: { slug: string; projects: Project[] }) => {
+  const { t } = useI18n();
+  const posts = usePosts();
+  const post = posts?.find(p => p.slug === slug);
+
+  useEffect(() => {
+    if (!post) return;
+    const previousTitle = document.title;
+    document.title = `${post.title} | ${SITE.name}`;
+    return () => { document.title = previousTitle; };
+  }, [post]);
+
+  if (!posts) return <section className="pt-48 pb-32 text-center text-gray-500">{t('blog.postLoading')}</section>;
+
+  if (!post) {
+    return (
+      <section className="pt-48 pb-32 container mx-auto px-6 text-center space-y-8">
+        <h1 className="text-4xl sm:text-6xl font-black tracking-tighter text-white">{t('blog.notFound')}</h1>
+        <Link href={BLOG_PATH} className="inline-block px-8 py-4 bg-white text-black hover:bg-gray-200 rounded-2xl font-extrabold text-sm transition-all">
+          {t('blog.allPosts').toUpperCase()}
+        </Link>
+      </section>
+    );
+  }
+
+  const related = post.projects
+    .map(repo => projects.find(project => project.repo.toLowerCase() === repo.toLowerCase()))
+    .filter((project): project is Project => Boolean(project));
+
+  return (
+    <article className="pt-36 pb-32 container mx-auto px-6 max-w-4xl">
+      <Link href={BLOG_PATH} className="mb-12 inline-flex items-center gap-2 text-xs font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors">
+        <ArrowLeft size={16} /> {t('blog.allPosts')}
+      </Link>
+
+      <header className="space-y-6 mb-12">
+        <PostMeta post={post} />
+        <h1 className="text-4xl sm:text-6xl font-black tracking-tighter text-white">{post.title}</h1>
+        <div className="flex flex-wrap gap-2">
+          {post.tags.map(tag => <TagChip key={tag} tag={tag} />)}
+        </div>
+      </header>
+
+      {post.cover && (
+        <img src={post.cover} alt="" className="w-full aspect-[16/9] object-cover rounded-[2rem] mb-12" />
+      )}
+
+      <div className="text-gray-300 text-lg leading-relaxed">
+        <Markdown text={post.body} resolveUrl={resolvePostUrl} />
+      </div>
+
+      {related.length > 0 && (
+        <aside className="mt-16 pt-10 border-t border-white/5 space-y-6">
+          <h2 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">{t('blog.related')}</h2>
+          <div className="grid sm:grid-cols-2 gap-4">
+            {related.map(project => (
+              <Link key={project.repo} href={projectHref(project.repo)} className="glass rounded-2xl p-6 border border-white/5 hover:border-blue-500/40 transition-colors space-y-2">
+                <span className="text-[10px] font-black tracking-[0.2em] text-blue-500 uppercase">{project.category}</span>
+                <div className="font-bold text-white">{project.title}</div>
+                <p className="text-gray-400 text-sm line-clamp-2">{project.description}</p>
+              </Link>
+            ))}
+          </div>
+        </aside>
+      )}
+    </article>
+  );
+};
@@ -0,0 +1,21 @@
+import React from 'react';
+import { isRouterHref, navigate } from '../lib/router';
+
+type LinkProps = React.AnchorHTMLAttributes<HTMLAnchorElement> & { href: string };
+
+// An anchor that navigates in-app for site paths and leaves modified clicks
+// (new tab, download, external targets) to the browser.
+const Link = ({ href, onClick, ...props }: LinkProps) => {
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    if (props.target && props.target !== '_self') return;
+    if (!isRouterHref(href)) return;
+    e.preventDefault();
+    navigate(href);
+  };
+
+  return <a href={href} onClick={handleClick} {...props} />;
+};
+
+export default Link;
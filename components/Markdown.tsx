@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import ReactMarkdown, { defaultUrlTransform, type Components, type ExtraProps } from 'react-markdown';
+import type { Nodes } from 'hast';
+import rehypeHighlight from 'rehype-highlight';
+import remarkGfm from 'remark-gfm';
+import { Check, Copy } from 'lucide-react';
+import { projectAnchorId, repoFromUrl } from '../lib/portfolio';
+import { isRouterHref } from '../lib/router';
+import Link from './Link';
+import { useI18n } from '../lib/i18n';
+import { scrollBehavior } from '../lib/a11y';
+
+// Renders untrusted markdown (model replies, READMEs) as React elements. Raw HTML in
+// the source is never injected, and react-markdown drops unsafe URLs such as javascript:.
+
+// Plain text of a hast node, used to copy a code block without its highlight spans
+const nodeText = (node?: Nodes): string => {
+  if (!node) return '';
+  if (node.type === 'text') return node.value;
+  return 'children' in node ? node.children.map(child => nodeText(child)).join('') : '';
+};
+
+const CodeBlock = ({ node, children }: React.ComponentProps<'pre'> & ExtraProps) => {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(nodeText(node).replace(/\n$/, ''));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('Copy failed:', error);
+    }
+  };
+
+  return (
+    <div className="relative group/code my-3">
+      <pre className="md-pre custom-scrollbar">{children}</pre>
+      <button
+        type="button"
+        onClick={handleCopy}
+        aria-label={copied ? t('common.copied') : t('common.copyCode')}
+        title={copied ? t('common.copied') : t('common.copyCode')}
+        className="absolute top-2 right-2 p-1.5 rounded-lg glass text-gray-400 hover:text-white opacity-0 group-hover/code:opacity-100 focus:opacity-100 transition-opacity"
+      >
+        {copied ? <Check size={14} className="text-emerald-400" /> : <Copy size={14} />}
+      </button>
+    </div>
+  );
+};
+
+const LINK_CLASS = 'text-blue-400 underline decoration-blue-400/40 underline-offset-2 hover:text-blue-300 break-words';
+
+// Links to other pages of the site stay in the app. Other links open in a new tab, except
+// citations of a repo whose card is on the page: those scroll to the card instead.
+const MarkdownLink = ({ href = '', children }: { href?: string; children?: React.ReactNode }) => {
+  if (isRouterHref(href)) return <Link href={href} className={LINK_CLASS}>{children}</Link>;
+
+  const handleClick = (e: React.MouseEvent) => {
+    const repo = repoFromUrl(href);
+    const card = repo && document.getElementById(projectAnchorId(repo));
+    if (!card) return;
+    e.preventDefault();
+    card.scrollIntoView({ behavior: scrollBehavior(), block: 'center' });
+  };
+
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      onClick={handleClick}
+      className={LINK_CLASS}
+    >
+      {children}
+    </a>
+  );
+};
+
+const components: Components = {
+  pre: CodeBlock,
+  a: MarkdownLink
+};
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+  // Rewrites relative URLs (e.g. README images) before the default safety check
+  resolveUrl?: (url: string, key: string) => string;
+}
+
+const Markdown = ({ text, className = '', resolveUrl }: MarkdownProps) => (
+  <div className={`markdown ${className}`}>
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      rehypePlugins={[[rehypeHighlight, { detect: true }]]}
+      components={components}
+      urlTransform={(url, key) => defaultUrlTransform(resolveUrl ? resolveUrl(url, key) : url)}
+    >
+      {text}
+    </ReactMarkdown>
+  </div>
+);
+
+export default Markdown;
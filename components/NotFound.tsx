@@ -0,0 +1,22 @@
+import React from 'react';
+import Link from './Link';
+import { useI18n } from '../lib/i18n';
+
+const NotFound = ({ pathname }: { pathname: string }) => {
+  const { t } = useI18n();
+  const [before, after = ''] = t('notFound.text').split('{path}');
+  return (
+    <section className="pt-48 pb-32 container mx-auto px-6 text-center space-y-8">
+      <div className="text-8xl font-black tracking-tighter gradient-text">404</div>
+      <h1 className="text-4xl sm:text-6xl font-black tracking-tighter text-white">{t('notFound.title')}</h1>
+      <p className="text-gray-400">
+        {before}<span className="mono text-gray-300">{pathname}</span>{after}
+      </p>
+      <Link href="/" className="inline-block px-8 py-4 bg-white text-black hover:bg-gray-200 rounded-2xl font-extrabold text-sm transition-all">
+        {t('notFound.home')}
+      </Link>
+    </section>
+  );
+};
+
+export default NotFound;
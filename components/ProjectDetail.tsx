@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Calendar, ExternalLink, Github, Star } from 'lucide-react';
+import Markdown from './Markdown';
+import { fetchReadme, loadedReadme, resolveRepoUrl } from '../lib/github';
+import { languageColor, type Project } from '../lib/portfolio';
+import { SITE } from '../lib/site';
+import { useI18n } from '../lib/i18n';
+
+const LanguageBreakdown = ({ languages }: { languages: Record<string, number> }) => {
+  const total = Object.values(languages).reduce((sum, bytes) => sum + bytes, 0);
+  if (total === 0) return null;
+
+  const entries = Object.entries(languages)
+    .sort((a, b) => b[1] - a[1])
+    .map(([name, bytes], idx) => ({
+      name,
+      percent: (bytes / total) * 100,
+      color: languageColor(name, idx)
+    }));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex h-2.5 rounded-full overflow-hidden bg-white/5">
+        {entries.map(entry => (
+          <div key={entry.name} style={{ width: `${entry.percent}%`, backgroundColor: entry.color }} title={entry.name} />
+        ))}
+      </div>
+      <ul className="space-y-2 text-sm">
+        {entries.map(entry => (
+          <li key={entry.name} className="flex items-center gap-3 text-gray-400">
+            <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: entry.color }}></span>
+            <span className="font-medium text-gray-300">{entry.name}</span>
+            <span className="ml-auto mono text-xs">{entry.percent.toFixed(1)}%</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const ProjectDetail = ({ project, onBack }: { project: Project; onBack: () => void }) => {
+  const { t, formatDate } = useI18n();
+  const [readme, setReadme] = useState<string | null>(() => loadedReadme(project.repo) ?? null);
+  const [readmeState, setReadmeState] = useState<'loading' | 'ready' | 'missing' | 'error'>(() => (loadedReadme(project.repo) ? 'ready' : 'loading'));
+
+  useEffect(() => {
+    const loaded = loadedReadme(project.repo);
+    if (loaded) {
+      setReadme(loaded);
+      setReadmeState('ready');
+      return;
+    }
+
+    let active = true;
+    setReadmeState('loading');
+    fetchReadme(project.repo)
+      .then(text => {
+        if (!active) return;
+        setReadme(text);
+        setReadmeState(text ? 'ready' : 'missing');
+      })
+      .catch(err => {
+        console.error('README Error:', err);
+        if (active) setReadmeState('error');
+      });
+    return () => { active = false; };
+  }, [project.repo]);
+
+  useEffect(() => {
+    const previousTitle = document.title;
+    document.title = `${project.title} | ${SITE.name}`;
+    return () => { document.title = previousTitle; };
+  }, [project.title]);
+
+  return (
+    <section className="pt-36 pb-32">
+      <div className="container mx-auto px-6 max-w-6xl">
+        <button
+          onClick={onBack}
+          className="mb-12 inline-flex items-center gap-2 text-xs font-black uppercase tracking-widest text-gray-400 hover:text-white transition-colors"
+        >
+          <ArrowLeft size={16} /> {t('project.back')}
+        </button>
+
+        <div className="space-y-6 mb-16">
+          <span className="text-[10px] font-black tracking-[0.2em] text-blue-500 uppercase">{project.category}</span>
+          <h1 className="text-4xl sm:text-6xl font-black tracking-tighter text-white">{project.title}</h1>
+          <p className="text-gray-400 text-lg md:text-xl max-w-3xl leading-relaxed font-medium">{project.description}</p>
+          <div className="flex flex-wrap gap-4 pt-2">
+            {project.github && (
+              <a href={project.github} target="_blank" rel="noopener noreferrer" className="px-6 py-3 bg-white text-black hover:bg-gray-200 rounded-2xl font-extrabold text-sm transition-all flex items-center gap-2">
+                <Github size={18} /> {t('project.source')}
+              </a>
+            )}
+            {project.link && project.link !== project.github && (
+              <a href={project.link} target="_blank" rel="noopener noreferrer" className="px-6 py-3 glass border border-white/10 hover:border-white/20 rounded-2xl font-extrabold text-sm transition-all flex items-center gap-2 text-white">
+                {t('project.homepage')} <ExternalLink size={16} />
+              </a>
+            )}
+          </div>
+        </div>
+
+        <div className="grid lg:grid-cols-12 gap-10">
+          <article className="lg:col-span-8 glass rounded-[2rem] p-6 sm:p-10 min-w-0 text-gray-300 leading-relaxed">
+            {readmeState === 'loading' && <p className="text-gray-500">{t('project.readmeLoading')}</p>}
+            {readmeState === 'missing' && <p className="text-gray-500">{t('project.readmeMissing')}</p>}
+            {readmeState === 'error' && (
+              <p className="text-gray-500">
+                {t('project.readmeError')} <a href={project.github} target="_blank" rel="noopener noreferrer" className="text-blue-400">{t('project.readmeOnGithub')}</a>.
+              </p>
+            )}
+            {readmeState === 'ready' && readme && (
+              <Markdown text={readme} resolveUrl={(url, key) => resolveRepoUrl(project.repo, url, key)} />
+            )}
+          </article>
+
+          <aside className="lg:col-span-4 space-y-6">
+            <div className="glass rounded-[2rem] p-8 space-y-5">
+              <div className="flex items-center gap-3 text-white">
+                <Star size={18} className="text-yellow-400" />
+                <span className="font-bold">{project.stars ?? 0}</span>
+                <span className="text-gray-500 text-sm">{t('project.stars')}</span>
+              </div>
+              <div className="flex items-center gap-3 text-white">
+                <Calendar size={18} className="text-blue-400" />
+                <span className="text-gray-500 text-sm">{t('project.updated')}</span>
+                <span className="font-bold">{formatDate(project.updatedAt)}</span>
+              </div>
+            </div>
+
+            {project.languages && Object.keys(project.languages).length > 0 && (
+              <div className="glass rounded-[2rem] p-8 space-y-5">
+                <h2 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">{t('project.languages')}</h2>
+                <LanguageBreakdown languages={project.languages} />
+              </div>
+            )}
+
+            {project.topics.length > 0 && (
+              <div className="glass rounded-[2rem] p-8 space-y-5">
+                <h2 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">{t('project.topics')}</h2>
+                <div className="flex flex-wrap gap-2">
+                  {project.topics.map(topic => (
+                    <span key={topic} className="px-3 py-1 bg-white/5 border border-white/10 rounded-lg text-[10px] font-bold text-gray-400 tracking-wider">
+                      {topic}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </aside>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default ProjectDetail;
@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import { BarChart3 } from 'lucide-react';
+import {
+  AnalyticsError,
+  fetchAnalyticsSummary,
+  type AnalyticsCount,
+  type AnalyticsErrorKind,
+  type AnalyticsSummary
+} from '../lib/analytics';
+import { useI18n, type MessageKey } from '../lib/i18n';
+
+// The /stats page: totals from the analytics collector (server/analytics.ts). Not
+// linked from the site and kept out of search results.
+
+const RANGES = [7, 30, 90];
+
+// The collector's token, kept for this tab only
+const TOKEN_KEY = 'christtech.stats.token';
+
+const readToken = () => {
+  try {
+    return sessionStorage.getItem(TOKEN_KEY) || '';
+  } catch {
+    return '';
+  }
+};
+
+const saveToken = (token: string) => {
+  try {
+    sessionStorage.setItem(TOKEN_KEY, token);
+  } catch {
+    // Storage unavailable: asked again after a reload
+  }
+};
+
+const StatCard = ({ label, value }: { label: string; value: number }) => (
+  <div className="glass rounded-3xl p-6 border border-white/5 space-y-2">
+    <div className="text-3xl font-black tracking-tight text-white">{value}</div>
+    <div className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400">{label}</div>
+  </div>
+);
+
+const CountList = ({ title, items }: { title: string; items: AnalyticsCount[] }) => {
+  const { t } = useI18n();
+  return (
+    <div className="glass rounded-3xl p-8 border border-white/5 space-y-4">
+      <h2 className="text-xs font-black uppercase tracking-[0.2em] text-blue-500">{title}</h2>
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('stats.none')}</p>
+      ) : (
+        <ol className="space-y-2">
+          {items.map(item => (
+            <li key={item.key} className="flex justify-between gap-4 text-sm">
+              <span className="mono text-gray-300 truncate">{item.key}</span>
+              <span className="font-bold text-white">{item.count}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+const DailyChart = ({ days }: { days: AnalyticsCount[] }) => {
+  const { t } = useI18n();
+  const max = Math.max(1, ...days.map(day => day.count));
+  return (
+    <div className="glass rounded-3xl p-8 border border-white/5 space-y-6">
+      <h2 className="text-xs font-black uppercase tracking-[0.2em] text-blue-500">{t('stats.daily')}</h2>
+      <div className="flex items-end gap-1 h-40">
+        {days.map(day => (
+          <div
+            key={day.key}
+            title={`${day.key}: ${day.count}`}
+            style={{ height: `${Math.max(2, (day.count / max) * 100)}%` }}
+            className={`flex-1 rounded-t ${day.count > 0 ? 'bg-gradient-to-t from-blue-600 to-purple-600' : 'bg-white/5'}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between mono text-[10px] text-gray-500">
+        <span>{days[0]?.key}</span>
+        <span>{days[days.length - 1]?.key}</span>
+      </div>
+    </div>
+  );
+};
+
+const TokenForm = ({ onSubmit }: { onSubmit: (token: string) => void }) => {
+  const { t } = useI18n();
+  const [value, setValue] = useState('');
+  return (
+    <form
+      onSubmit={e => {
+        e.preventDefault();
+        if (value.trim()) onSubmit(value.trim());
+      }}
+      className="glass rounded-3xl p-8 border border-white/5 space-y-4 max-w-md"
+    >
+      <label htmlFor="stats-token" className="block text-sm text-gray-400">{t('stats.tokenPrompt')}</label>
+      <input
+        id="stats-token"
+        type="password"
+        autoComplete="current-password"
+        value={value}
+        onChange={e => setValue(e.target.value)}
+        placeholder={t('stats.token')}
+        className="w-full bg-white/5 border border-white/10 focus:border-blue-500 rounded-2xl px-5 py-4 outline-none transition-all font-medium text-white"
+      />
+      <button type="submit" className="px-8 py-4 bg-white text-black hover:bg-gray-200 rounded-2xl font-extrabold text-sm transition-all">
+        {t('stats.open')}
+      </button>
+    </form>
+  );
+};
+
+const CARDS: [MessageKey, (summary: AnalyticsSummary) => number][] = [
+  ['stats.pageViews', summary => summary.counts.page_view],
+  ['stats.projectClicks', summary => summary.counts.project_click],
+  ['stats.chatOpens', summary => summary.counts.chat_open],
+  ['stats.chatMessages', summary => summary.counts.chat_message],
+  ['stats.contactSent', summary => summary.contact.sent],
+  ['stats.contactQueued', summary => summary.contact.queued],
+  ['stats.contactErrors', summary => summary.contact.error]
+];
+
+const StatsDashboard = () => {
+  const { t } = useI18n();
+  const [days, setDays] = useState(30);
+  const [token, setToken] = useState(readToken);
+  const [summary, setSummary] = useState<AnalyticsSummary | null>(null);
+  const [error, setError] = useState<AnalyticsErrorKind | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setError(null);
+    fetchAnalyticsSummary(days, token, controller.signal)
+      .then(setSummary)
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error('Stats Error:', err);
+        setError(err instanceof AnalyticsError ? err.kind : 'unavailable');
+      });
+    return () => controller.abort();
+  }, [days, token]);
+
+  const openWith = (next: string) => {
+    saveToken(next);
+    setToken(next);
+  };
+
+  return (
+    <section className="pt-48 pb-32 container mx-auto px-6 max-w-6xl space-y-10">
+      <div className="flex flex-wrap items-end justify-between gap-6">
+        <h1 className="flex items-center gap-4 text-3xl sm:text-5xl font-black tracking-tighter text-white">
+          <BarChart3 className="text-blue-400" size={40} /> {t('stats.title')}
+        </h1>
+        <div className="flex gap-2">
+          {RANGES.map(range => (
+            <button
+              key={range}
+              onClick={() => setDays(range)}
+              aria-pressed={days === range}
+              className={`px-4 py-2 rounded-xl text-xs font-bold border transition-colors ${days === range ? 'bg-blue-600 border-blue-500 text-on-accent' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'}`}
+            >
+              {t('stats.range', { days: range })}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error === 'unauthorized' && <TokenForm onSubmit={openWith} />}
+      {error === 'unavailable' && <p className="text-red-400">{t('stats.error')}</p>}
+      {!error && !summary && <p className="text-gray-500">{t('common.loading')}</p>}
+
+      {!error && summary && (
+        <>
+          {summary.total === 0 && <p className="text-gray-400">{t('stats.empty')}</p>}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {CARDS.map(([label, value]) => <StatCard key={label} label={t(label)} value={value(summary)} />)}
+          </div>
+          <DailyChart days={summary.daily} />
+          <div className="grid md:grid-cols-3 gap-4">
+            <CountList title={t('stats.topPages')} items={summary.pages} />
+            <CountList title={t('stats.topProjects')} items={summary.projects} />
+            <CountList title={t('stats.failures')} items={summary.contactFailures} />
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default StatsDashboard;
@@ -0,0 +1,22 @@
+import type { ProjectsConfig } from '../lib/portfolio';
+
+// Curation for the Projects section, keyed by GitHub repo name. Anything set here
+// wins over what GitHub reports; repos not listed are shown as GitHub describes them.
+//
+//   pinned       listed before everything else in 'pinned' sort mode
+//   order        position among pinned repos (lower first)
+//   hidden       never shown, and not mentioned by the assistant
+//   featured     highlighted card
+//   title, description, category, image, tags   replace the GitHub-derived values
+//
+// Repos without a GitHub description are hidden unless a description is set here.
+const projectsConfig: ProjectsConfig = {
+  sort: 'pinned',
+  limit: 6,
+  overrides: {
+    // Profile README, not a project
+    ChristTech: { hidden: true }
+  }
+};
+
+export default projectsConfig;
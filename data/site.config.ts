@@ -0,0 +1,61 @@
+import type { SiteConfig } from '../lib/site';
+
+// Everything the site says about its owner. Components read from here, so updating the
+// profile (or forking the site for someone else) means editing this file only.
+// `npm run check:site` validates it, and every build runs that check first.
+const siteConfig: SiteConfig = {
+  name: 'CHRISTTech',
+  logo: { highlight: 'CHRIST', rest: 'TECH' },
+  role: 'ML & Robotics Engineer',
+  tagline: 'Building Intelligent Systems.',
+  location: 'Remote',
+  summary: 'Expert in ML/AI, robotics systems, Python development, and mobile applications.',
+  focus: 'Machine learning models, robotics automation, Python tools, mobile apps.',
+  githubUser: 'ChristTech',
+  hero: {
+    availability: 'Available for new projects',
+    headline: { before: 'Building', highlight: 'Intelligent', after: 'Systems.' },
+    intro: 'Machine Learning & Robotics Engineer specializing in AI-driven solutions, autonomous systems, and intelligent mobile applications.',
+    card: { focus: 'AI & Automation', status: 'Building the Future' }
+  },
+  about: {
+    paragraphs: [
+      'I am a passionate robotics engineer who aims to develop robotics systems that work seamlessly with artificial intelligence to help people, especially in the health sector.',
+      'I also tutor young aspiring robotics engineers and enthusiasts, sharing my knowledge and passion for building intelligent systems that solve real-world problems.'
+    ],
+    stats: [
+      { value: 'ML', label: 'Models Deployed' },
+      { value: 'AI', label: 'Driven Systems' },
+      { value: 'IOT', label: 'Robotics Projects' }
+    ],
+    photo: '/Myself2.png'
+  },
+  skills: [
+    {
+      title: 'Machine Learning & AI',
+      icon: 'cpu',
+      iconColor: 'text-blue-400',
+      items: ['TensorFlow / PyTorch', 'Scikit-learn', 'Computer Vision', 'NLP & LLMs', 'Model Deployment']
+    },
+    {
+      title: 'Robotics & Hardware',
+      icon: 'zap',
+      iconColor: 'text-purple-400',
+      items: ['ROS', 'Arduino / Raspberry Pi', 'Sensor Integration', 'Control Systems', 'Embedded Systems']
+    },
+    {
+      title: 'Development Stack',
+      icon: 'layers',
+      iconColor: 'text-pink-400',
+      items: ['Python (Core)', 'Flutter / React Native', 'FastAPI / Django', 'Docker / Kubernetes', 'Git & CI/CD']
+    }
+  ],
+  contact: {
+    email: 'adebisivictor39@gmail.com',
+    whatsapp: '2349018114203',
+    linkedin: 'https://www.linkedin.com/in/christtech',
+    intro: 'Whether you have a groundbreaking idea or just want to discuss the latest tech stack, my door is always open.'
+  }
+};
+
+export default siteConfig;
@@ -0,0 +1,201 @@
+// @vitest-environment jsdom
+import React from 'react';
+import axe from 'axe-core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { AIChat, App } from './index';
+import type { ChatModelClient, Message } from './lib/chat';
+
+// A model client the test feeds by hand: each push() is one streamed chunk, end()
+// finishes the reply. Stopping rejects like fetch does on abort.
+const createFakeClient = () => {
+  const calls: { history: Message[]; userMsg: string; signal: AbortSignal }[] = [];
+  const chunks: string[] = [];
+  let done = false;
+  let wake = () => {};
+
+  const client: ChatModelClient = {
+    async *streamReply(history, userMsg, signal) {
+      calls.push({ history, userMsg, signal });
+      while (true) {
+        if (chunks.length > 0) {
+          yield chunks.shift()!;
+          continue;
+        }
+        if (done) return;
+        await new Promise<void>((resolve, reject) => {
+          wake = resolve;
+          signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')), { once: true });
+        });
+      }
+    }
+  };
+
+  return {
+    client,
+    calls,
+    push: (chunk: string) => {
+      chunks.push(chunk);
+      wake();
+    },
+    end: () => {
+      done = true;
+      wake();
+    }
+  };
+};
+
+const openAndAsk = (question: string) => {
+  fireEvent.click(screen.getByRole('button', { name: 'Open the AI assistant' }));
+  const input = screen.getByRole('textbox', { name: 'Message' });
+  fireEvent.change(input, { target: { value: question } });
+  fireEvent.keyDown(input, { key: 'Enter' });
+};
+
+const conversationLog = () => within(screen.getByRole('log'));
+
+const liveRegion = () => document.querySelector('[aria-live="polite"]');
+
+beforeEach(() => {
+  localStorage.clear();
+  // The project list behind the starter questions is never needed here
+  vi.stubGlobal('fetch', vi.fn(() => new Promise(() => {})));
+});
+
+afterEach(cleanup);
+
+describe('AIChat', () => {
+  it('shows the reply as it streams in', async () => {
+    const fake = createFakeClient();
+    render(<AIChat client={fake.client} />);
+
+    openAndAsk('What do you build?');
+    expect(fake.calls[0].userMsg).toBe('What do you build?');
+
+    fake.push('Robots');
+    expect(await conversationLog().findByText('Robots')).toBeTruthy();
+    fake.push(' and models.');
+    expect(await conversationLog().findByText('Robots and models.')).toBeTruthy();
+
+    fake.end();
+    expect(await screen.findByRole('button', { name: 'Send' })).toBeTruthy();
+  });
+
+  it('stops through the AbortController and keeps what arrived', async () => {
+    const fake = createFakeClient();
+    render(<AIChat client={fake.client} />);
+
+    openAndAsk('Tell me everything');
+    fake.push('Partial answer');
+    await conversationLog().findByText('Partial answer');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Stop generating' }));
+
+    expect(fake.calls[0].signal.aborted).toBe(true);
+    expect(await screen.findByRole('button', { name: 'Send' })).toBeTruthy();
+    expect(conversationLog().getByText('Partial answer')).toBeTruthy();
+    expect(conversationLog().queryByText('Generation stopped.')).toBeNull();
+  });
+
+  it('says the reply was stopped when nothing had arrived yet', async () => {
+    const fake = createFakeClient();
+    render(<AIChat client={fake.client} />);
+
+    openAndAsk('Hello?');
+    fireEvent.click(screen.getByRole('button', { name: 'Stop generating' }));
+
+    expect(await conversationLog().findByText('Generation stopped.')).toBeTruthy();
+  });
+
+  it('passes the earlier turns to the client', async () => {
+    const fake = createFakeClient();
+    render(<AIChat client={fake.client} />);
+
+    openAndAsk('First question');
+    fake.push('First answer');
+    fake.end();
+    await screen.findByRole('button', { name: 'Send' });
+
+    const input = screen.getByRole('textbox', { name: 'Message' });
+    fireEvent.change(input, { target: { value: 'Second question' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    await waitFor(() => expect(fake.calls).toHaveLength(2));
+    expect(fake.calls[1].history.map(msg => msg.text).slice(-2)).toEqual(['First question', 'First answer']);
+  });
+
+  it('announces the finished reply once, not each chunk', async () => {
+    const fake = createFakeClient();
+    render(<AIChat client={fake.client} />);
+
+    openAndAsk('Hi');
+    fake.push('Half a');
+    await conversationLog().findByText('Half a');
+    expect(liveRegion()?.textContent).toBe('The assistant is replying…');
+
+    fake.push(' reply.');
+    fake.end();
+    await waitFor(() => expect(liveRegion()?.textContent).toBe('Half a reply.'));
+  });
+});
+
+// scripts/check-a11y.ts only sees the pre-rendered HTML, with the chat and the menu
+// closed. This runs the same axe rules over the app with both open.
+describe('App accessibility', () => {
+  beforeEach(() => {
+    // jsdom has no layout: nothing to observe or scroll
+    vi.stubGlobal('IntersectionObserver', class {
+      observe() {}
+      unobserve() {}
+      disconnect() {}
+    });
+    vi.spyOn(window, 'scrollTo').mockImplementation(() => {});
+  });
+
+  const openChatAndMenu = () => {
+    render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: 'Menu' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Open the AI assistant' }));
+    return screen.getByRole('dialog');
+  };
+
+  it('breaks no WCAG 2.1 A or AA rule with the chat and the menu open', async () => {
+    openChatAndMenu();
+    expect(document.getElementById('mobile-menu')).not.toBeNull();
+
+    const results = await axe.run(document.body, {
+      runOnly: { type: 'tag', values: ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'] },
+      // jsdom has no layout to measure contrast with
+      rules: { 'color-contrast': { enabled: false } },
+      resultTypes: ['violations']
+    });
+
+    expect(results.violations.map(violation => `${violation.id}: ${violation.nodes.map(node => node.target).join(', ')}`)).toEqual([]);
+  });
+
+  it('keeps Tab inside the open chat', () => {
+    const dialog = openChatAndMenu();
+    expect(document.activeElement).toBe(within(dialog).getByRole('textbox', { name: 'Message' }));
+
+    const controls = [...dialog.querySelectorAll<HTMLElement>('a[href], button:not([disabled]), input:not([disabled]), textarea:not([disabled])')];
+    const first = controls[0];
+    const last = controls[controls.length - 1];
+
+    last.focus();
+    fireEvent.keyDown(last, { key: 'Tab' });
+    expect(document.activeElement).toBe(first);
+
+    fireEvent.keyDown(first, { key: 'Tab', shiftKey: true });
+    expect(document.activeElement).toBe(last);
+  });
+
+  it('closes the chat and the menu with Esc', () => {
+    openChatAndMenu();
+
+    fireEvent.keyDown(document, { key: 'Escape' });
+
+    expect(screen.queryByRole('dialog')).toBeNull();
+    expect(document.getElementById('mobile-menu')).toBeNull();
+    expect(screen.getByRole('button', { name: 'Menu' }).getAttribute('aria-expanded')).toBe('false');
+  });
+});
@@ -1,10 +1,12 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { createRoot } from 'react-dom/client';
+import React, { Suspense, lazy, useEffect, useLayoutEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { createRoot, hydrateRoot } from 'react-dom/client';
 import {
   ArrowRight,
   ChevronRight,
+  CloudOff,
   Code2,
   Cpu,
+  Download,
   ExternalLink,
   Globe,
   Github,
@@ -13,47 +15,131 @@ import {
   Mail,
   Menu,
   MessageSquare,
+  Monitor,
+  Moon,
   Palette,
   Phone,
+  RefreshCw,
+  RotateCcw,
+  Search,
   Send,
   SendHorizontal,
   Sparkles,
+  Square,
+  Star,
+  Sun,
   Terminal,
   X,
   Zap
 } from 'lucide-react';
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  ChatError,
+  MAX_MESSAGE_CHARS,
+  createProxyChatClient,
+  type ChatModelClient,
+  type Message
+} from './lib/chat';
+import {
+  clearTranscript,
+  downloadTranscript,
+  loadTranscript,
+  saveTranscript,
+  type TranscriptFormat
+} from './lib/transcript';
+import {
+  DEFAULT_FILTERS,
+  PROJECTS_LIMIT,
+  buildStarterQuestions,
+  filterProjects,
+  filtersFromSearch,
+  filtersToSearch,
+  getProjectsState,
+  loadProjects,
+  projectAnchorId,
+  projectFacets,
+  projectHref,
+  getServerProjectsState,
+  subscribeProjects,
+  type Project,
+  type ProjectFilters,
+  type ProjectSort,
+  type ProjectsState
+} from './lib/portfolio';
+import { SITE_OG_IMAGE, projectOgImage } from './lib/og';
+import { SITE, SITE_LINKS, type SkillGroup } from './lib/site';
+import { LOCALES, isLocale, useI18n, type Locale, type MessageKey, type Translate } from './lib/i18n';
+import { THEME_PREFERENCES, startTheme, useTheme, type ThemePreference } from './lib/theme';
+import {
+  CONTACT_LIMITS,
+  ContactError,
+  DETAIL_CHOICES,
+  DETAIL_LABELS,
+  EMPTY_CONTACT,
+  HONEYPOT_FIELD,
+  INQUIRY_DETAILS,
+  INQUIRY_LABELS,
+  INQUIRY_TYPES,
+  STUDENT_AGE,
+  activeFields,
+  choiceLabel,
+  contactPayload,
+  contactRetryAfter,
+  fieldsFromPayload,
+  inquirySubject,
+  isChoiceDetail,
+  isInquiryType,
+  looksLikeBot,
+  recordContactSend,
+  validateContact,
+  type ContactField,
+  type ContactFields,
+  type ContactProvider,
+  type InquiryType
+} from './lib/contact';
+import { contactProviderFromEnv, createContactProvider } from './lib/contact-providers';
+import { DRAFT_SAVE_DELAY_MS, clearDraft, loadDraft, saveDraft } from './lib/contact-draft';
+import { queueSubmission, startOutbox, takeRejected, useOutboxRejected, useOutboxSize } from './lib/contact-outbox';
+import {
+  startAnalytics,
+  track,
+  useAnalytics,
+  type ContactFailure,
+  type ContactOutcome,
+  type ProjectClickTarget
+} from './lib/analytics';
+import { analyticsSinkFromEnv, createAnalyticsSink } from './lib/analytics-sinks';
+import { prefersReducedMotion, useEscapeKey, useFocusTrap } from './lib/a11y';
+import {
+  getLocation,
+  getServerLocation,
+  matchRoute,
+  navigate,
+  restoreScroll,
+  startRouter,
+  subscribeLocation,
+  type Route
+} from './lib/router';
+import { loadPosts } from './lib/blog';
+import { loadReadmes } from './lib/github';
+import Link from './components/Link';
+
+// The markdown renderer and its highlighter are only needed once the assistant replies
+const Markdown = lazy(() => import('./components/Markdown'));
+
+// Pages other than home are split into their own chunks
+const ProjectDetail = lazy(() => import('./components/ProjectDetail'));
+const BlogIndex = lazy(() => import('./components/Blog').then(module => ({ default: module.BlogIndex })));
+const BlogPostPage = lazy(() => import('./components/Blog').then(module => ({ default: module.BlogPostPage })));
+const NotFound = lazy(() => import('./components/NotFound'));
+const StatsDashboard = lazy(() => import('./components/StatsDashboard'));
+
+// Build-time settings: the VITE_* variables from .env.local
+const ENV = import.meta.env;
+
+// Chosen by VITE_ANALYTICS_SINK; records nothing unless set
+const ANALYTICS_SINK = createAnalyticsSink(analyticsSinkFromEnv(ENV));
 
 // --- Types ---
-interface Project {
-  title: string;
-  category: string;
-  description: string;
-  image: string;
-  tags: string[];
-  link?: string;
-  github?: string;
-  stars?: number;
-  language?: string;
-  updated?: string;
-}
-
-interface GitHubRepo {
-  name: string;
-  description: string;
-  html_url: string;
-  homepage: string;
-  topics: string[];
-  stargazers_count: number;
-  language: string;
-  updated_at: string;
-}
-
-interface Message {
-  role: 'user' | 'ai';
-  text: string;
-}
-
 interface SkillCategory {
   title: string;
   Icon: React.ElementType;
@@ -67,6 +153,11 @@ const useReveal = () => {
   const ref = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
+    // Nothing slides in under reduced motion; styles.css already shows .reveal as it is
+    if (prefersReducedMotion()) {
+      setIsVisible(true);
+      return;
+    }
     const observer = new IntersectionObserver(
       ([entry]) => {
         if (entry.isIntersecting) {
@@ -83,16 +174,78 @@ const useReveal = () => {
   return { ref, isVisible };
 };
 
+// Shared GitHub project list, loaded once for the Projects grid and the assistant
+const useProjects = () => {
+  const state = useSyncExternalStore(subscribeProjects, getProjectsState, getServerProjectsState);
+
+  useEffect(() => {
+    loadProjects();
+  }, []);
+
+  return state;
+};
+
+// Project filters mirrored into the URL query string with replaceState, so a filtered
+// list can be shared or reloaded without filtering adding history entries. Back/forward
+// to another entry of this page shows the filters in that entry's URL.
+const useProjectFilters = () => {
+  const [filters, setFilters] = useState<ProjectFilters>(DEFAULT_FILTERS);
+
+  useEffect(() => {
+    // Read after mounting, so the first render matches the pre-rendered page (which has no query)
+    if (window.location.search) setFilters(filtersFromSearch(window.location.search));
+    const handlePopState = () => setFilters(filtersFromSearch(window.location.search));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const updateFilters = (patch: Partial<ProjectFilters>) => {
+    const next = { ...filters, ...patch };
+    setFilters(next);
+    const { pathname, search, hash } = window.location;
+    window.history.replaceState(window.history.state, '', `${pathname}${filtersToSearch(next, search)}${hash}`);
+  };
+
+  return { filters, updateFilters };
+};
+
+const useLocation = () => useSyncExternalStore(subscribeLocation, getLocation, getServerLocation);
+
 // --- Components ---
 
-const AIChat = () => {
+const welcomeMessage = (t: Translate): Message => ({ role: 'ai', text: t('chat.welcome', { name: SITE.name }) });
+
+const CHAT_ERROR_KEYS: Record<NonNullable<Message['error']>, MessageKey> = {
+  missing_key: 'chat.errorMissingKey',
+  rate_limited: 'chat.errorRateLimited',
+  network: 'chat.errorNetwork',
+  model: 'chat.errorModel',
+  invalid_request: 'chat.errorInvalidRequest',
+  stopped: 'chat.stopped'
+};
+
+const chatErrorText = (t: Translate, kind: keyof typeof CHAT_ERROR_KEYS, retryAfter?: number) =>
+  kind === 'rate_limited' && retryAfter
+    ? t('chat.errorRateLimitedWait', { seconds: retryAfter })
+    : t(CHAT_ERROR_KEYS[kind], { name: SITE.name, max: MAX_MESSAGE_CHARS });
+
+export const AIChat = ({ client = createProxyChatClient() }: { client?: ChatModelClient }) => {
+  const { locale, t } = useI18n();
   const [isOpen, setIsOpen] = useState(false);
-  const [messages, setMessages] = useState<Message[]>([
-    { role: 'ai', text: "Hi! I'm CHRISTTech's AI assistant. Ask me anything about machine learning, robotics projects, or tech stack!" }
-  ]);
+  const [messages, setMessages] = useState<Message[]>(() => loadTranscript() ?? [welcomeMessage(t)]);
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const { projects } = useProjects();
+  const starterQuestions = useMemo(() => buildStarterQuestions(projects, 4, t), [projects, t]);
+
+  // Keyboard focus stays in the open panel; Esc closes the export menu, then the panel
+  useFocusTrap(panelRef, isOpen, inputRef);
+  useEscapeKey(isOpen, () => (isExportOpen ? setIsExportOpen(false) : setIsOpen(false)));
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -100,67 +253,196 @@ const AIChat = () => {
     }
   }, [messages]);
 
-  const handleSend = async () => {
-    if (!input.trim() || isTyping) return;
+  // A conversation that hasn't started yet greets the visitor in the language they switch to
+  useEffect(() => {
+    setMessages(prev => (prev.length === 1 && prev[0].role === 'ai' && !prev[0].error ? [welcomeMessage(t)] : prev));
+  }, [t]);
 
-    const userMsg = input.trim();
-    setInput('');
-    setMessages(prev => [...prev, { role: 'user', text: userMsg }]);
+  // Abort any in-flight reply when the panel unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Persist finished turns; a fresh conversation has nothing worth keeping
+  useEffect(() => {
+    if (isTyping) return;
+    if (messages.length > 1) {
+      saveTranscript(messages);
+    } else {
+      clearTranscript();
+    }
+  }, [messages, isTyping]);
+
+  // Replaces the text of the trailing ai bubble while a reply streams in
+  const updateReply = (text: string, error?: Message['error']) => {
+    setMessages(prev => [...prev.slice(0, -1), { role: 'ai', text, error }]);
+  };
+
+  // Sends `userMsg` as the next turn after `history`
+  const send = async (userMsg: string, history: Message[]) => {
+    setMessages([...history, { role: 'user', text: userMsg }, { role: 'ai', text: '' }]);
     setIsTyping(true);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let reply = '';
+
+    // Ignore late updates once the conversation has been reset
+    const update = (text: string, error?: Message['error']) => {
+      if (abortRef.current === controller) updateReply(text, error);
+    };
+
     try {
-      const apiKey = process.env.API_KEY;
-      if (!apiKey) {
-        throw new Error("API key is missing");
+      for await (const chunk of client.streamReply(history, userMsg, controller.signal, { locale })) {
+        reply += chunk;
+        update(reply);
       }
 
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({
-        model: "gemini-2.0-flash-exp",
-        systemInstruction: `You are an AI assistant for CHRISTTech, a Machine Learning and Robotics Engineer. 
-            Bio: Expert in ML/AI, robotics systems, Python development, and mobile applications. 
-            Stack: TensorFlow, PyTorch, ROS, Python, Flutter, React Native, FastAPI, Computer Vision. 
-            Personality: Technical, innovative, passionate about AI and robotics. 
-            Location: Remote.
-            Focus: Machine learning models, robotics automation, Python tools, mobile apps.
-            Be concise, technical yet friendly, and helpful. Always respond as CHRISTTech's assistant.`,
-      });
-
-      const result = await model.generateContent(userMsg);
-      const aiResponse = result.response.text() || "I'm having a little glitch. Can you try again?";
-      setMessages(prev => [...prev, { role: 'ai', text: aiResponse }]);
+      if (!reply) {
+        update(chatErrorText(t, 'model'), 'model');
+      }
     } catch (error) {
-      console.error("AI Chat Error:", error);
-      setMessages(prev => [...prev, { role: 'ai', text: "Connection issues. Alex must be coding something big!" }]);
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before the visitor pressed stop
+        update(reply || t('chat.stopped'), reply ? undefined : 'stopped');
+      } else {
+        console.error("AI Chat Error:", error);
+        const kind = error instanceof ChatError ? error.kind : 'model';
+        update(chatErrorText(t, kind, error instanceof ChatError ? error.retryAfter : undefined), kind);
+      }
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsTyping(false);
     }
   };
 
+  const handleSend = (text = input) => {
+    const userMsg = text.trim();
+    if (!userMsg || isTyping) return;
+    setInput('');
+    track({ type: 'chat_message' });
+    send(userMsg, messages);
+  };
+
+  // Resends the question behind the failed reply at `index`
+  const handleRetry = (index: number) => {
+    const question = messages[index - 1];
+    if (isTyping || question?.role !== 'user') return;
+    send(question.text, messages.slice(0, index - 1));
+  };
+
+  const handleStop = () => abortRef.current?.abort();
+
+  const handleNewConversation = () => {
+    const controller = abortRef.current;
+    abortRef.current = null;
+    controller?.abort();
+    setMessages([welcomeMessage(t)]);
+    setIsExportOpen(false);
+    clearTranscript();
+  };
+
+  const handleExport = (format: TranscriptFormat) => {
+    downloadTranscript(messages.filter(msg => msg.text), format);
+    setIsExportOpen(false);
+  };
+
+  // What screen readers hear: the finished reply, not every chunk as it streams in
+  const lastMessage = messages[messages.length - 1];
+  const announcement = isTyping
+    ? t('chat.replying')
+    : messages.length > 1 && lastMessage.role === 'ai' ? lastMessage.text : '';
+
   return (
     <div className="fixed bottom-6 right-6 z-[100]">
       {isOpen && (
-        <div className="mb-4 w-80 md:w-96 glass rounded-2xl overflow-hidden shadow-2xl border border-white/10 animate-in slide-in-from-bottom-4 duration-300">
+        <div
+          ref={panelRef}
+          id="ai-chat"
+          role="dialog"
+          aria-labelledby="ai-chat-title"
+          className="mb-4 w-80 md:w-96 glass rounded-2xl overflow-hidden shadow-2xl border border-white/10 animate-in slide-in-from-bottom-4 duration-300"
+        >
           <div className="p-4 bg-gradient-to-r from-blue-600/20 to-purple-600/20 border-b border-white/10 flex justify-between items-center">
             <div className="flex items-center gap-2">
               <Sparkles size={18} className="text-blue-400" />
-              <span className="font-bold text-sm tracking-tight">AI Assistant</span>
+              <h2 id="ai-chat-title" className="font-bold text-sm tracking-tight">{t('chat.title')}</h2>
+            </div>
+            <div className="relative flex items-center gap-3">
+              <button
+                onClick={() => setIsExportOpen(!isExportOpen)}
+                disabled={messages.length < 2}
+                aria-label={t('chat.export')}
+                aria-expanded={isExportOpen}
+                title={t('chat.export')}
+                className="text-gray-400 hover:text-white disabled:opacity-30 disabled:hover:text-gray-400 transition-colors"
+              >
+                <Download size={16} />
+              </button>
+              <button
+                onClick={handleNewConversation}
+                aria-label={t('chat.newConversation')}
+                title={t('chat.newConversation')}
+                className="text-gray-400 hover:text-white transition-colors"
+              >
+                <RotateCcw size={16} />
+              </button>
+              <button onClick={() => setIsOpen(false)} aria-label={t('chat.close')} title={t('chat.close')} className="text-gray-400 hover:text-white transition-colors">
+                <X size={18} />
+              </button>
+              {isExportOpen && (
+                <div className="absolute top-full right-0 mt-2 w-40 glass rounded-xl p-1 z-10 text-xs font-bold">
+                  <button onClick={() => handleExport('markdown')} className="w-full text-left px-3 py-2 rounded-lg hover:bg-white/10 text-gray-200">
+                    Markdown (.md)
+                  </button>
+                  <button onClick={() => handleExport('json')} className="w-full text-left px-3 py-2 rounded-lg hover:bg-white/10 text-gray-200">
+                    JSON (.json)
+                  </button>
+                </div>
+              )}
             </div>
-            <button onClick={() => setIsOpen(false)} className="text-gray-400 hover:text-white transition-colors">
-              <X size={18} />
-            </button>
           </div>
-          <div ref={scrollRef} className="h-96 overflow-y-auto p-4 space-y-4 custom-scrollbar bg-slate-900/40">
-            {messages.map((msg, idx) => (
+          <div
+            ref={scrollRef}
+            role="log"
+            aria-live="off"
+            aria-label={t('chat.messages')}
+            tabIndex={0}
+            className="h-96 overflow-y-auto p-4 space-y-4 custom-scrollbar bg-slate-900/40 outline-none focus-visible:ring-2 focus-visible:ring-blue-500/50"
+          >
+            {messages.map((msg, idx) => msg.text && (
               <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                <div className={`max-w-[85%] p-3 rounded-xl text-sm leading-relaxed ${msg.role === 'user' ? 'msg-user text-white' : 'msg-ai text-gray-200'}`}>
-                  {msg.text}
+                <div className={`max-w-[85%] min-w-0 p-3 rounded-xl text-sm leading-relaxed ${msg.role === 'user' ? 'msg-user text-white' : msg.error ? 'msg-ai text-amber-200 border border-amber-500/20' : 'msg-ai text-gray-200'}`}>
+                  {msg.role === 'ai' && !msg.error ? (
+                    <Suspense fallback={<span className="whitespace-pre-wrap">{msg.text}</span>}>
+                      <Markdown text={msg.text} />
+                    </Suspense>
+                  ) : msg.text}
+                  {msg.error && msg.error !== 'missing_key' && idx === messages.length - 1 && !isTyping && (
+                    <button
+                      onClick={() => handleRetry(idx)}
+                      className="mt-2 flex items-center gap-1.5 text-xs font-bold text-blue-400 hover:text-blue-300 transition-colors"
+                    >
+                      <RefreshCw size={12} /> {t('chat.retry')}
+                    </button>
+                  )}
                 </div>
               </div>
             ))}
-            {isTyping && (
+            {messages.length === 1 && !isTyping && (
+              <div className="flex flex-wrap gap-2">
+                {starterQuestions.map(question => (
+                  <button
+                    key={question}
+                    onClick={() => handleSend(question)}
+                    className="px-3 py-1.5 rounded-full bg-white/5 border border-white/10 hover:border-blue-500/50 hover:bg-blue-500/10 text-xs text-gray-300 text-left transition-all"
+                  >
+                    {question}
+                  </button>
+                ))}
+              </div>
+            )}
+            {isTyping && !messages[messages.length - 1].text && (
               <div className="flex justify-start">
-                <div className="msg-ai p-3 rounded-xl flex gap-1 items-center">
+                <div aria-hidden="true" className="msg-ai p-3 rounded-xl flex gap-1 items-center">
                   <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce"></div>
                   <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce [animation-delay:0.2s]"></div>
                   <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce [animation-delay:0.4s]"></div>
@@ -168,39 +450,111 @@ const AIChat = () => {
               </div>
             )}
           </div>
+          <div aria-live="polite" className="sr-only">{announcement}</div>
           <div className="p-4 bg-slate-900/60 border-t border-white/5">
             <div className="relative">
               <input
+                ref={inputRef}
                 type="text"
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
-                onKeyPress={(e) => e.key === 'Enter' && handleSend()}
-                placeholder="Ask about my projects..."
+                onKeyDown={(e) => e.key === 'Enter' && !e.nativeEvent.isComposing && handleSend()}
+                maxLength={MAX_MESSAGE_CHARS}
+                aria-label={t('chat.message')}
+                placeholder={t('chat.placeholder')}
                 className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-2 pr-10 text-sm outline-none focus:border-blue-500/50 transition-all text-white"
               />
-              <button
-                onClick={handleSend}
-                className="absolute right-2 top-1/2 -translate-y-1/2 text-blue-500 hover:text-blue-400"
-              >
-                <Send size={16} />
-              </button>
+              {isTyping ? (
+                <button
+                  onClick={handleStop}
+                  aria-label={t('chat.stop')}
+                  title={t('chat.stop')}
+                  className="absolute right-2 top-1/2 -translate-y-1/2 text-red-400 hover:text-red-300"
+                >
+                  <Square size={16} />
+                </button>
+              ) : (
+                <button
+                  onClick={() => handleSend()}
+                  aria-label={t('chat.send')}
+                  title={t('chat.send')}
+                  className="absolute right-2 top-1/2 -translate-y-1/2 text-blue-500 hover:text-blue-400"
+                >
+                  <Send size={16} />
+                </button>
+              )}
             </div>
           </div>
         </div>
       )}
       <button
-        onClick={() => setIsOpen(!isOpen)}
+        onClick={() => {
+          if (!isOpen) track({ type: 'chat_open' });
+          setIsOpen(!isOpen);
+        }}
+        aria-label={isOpen ? t('chat.close') : t('chat.open')}
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? 'ai-chat' : undefined}
+        title={isOpen ? t('chat.close') : t('chat.open')}
         className="w-14 h-14 bg-gradient-to-tr from-blue-600 to-purple-600 rounded-full shadow-lg shadow-blue-500/20 flex items-center justify-center hover:scale-110 active:scale-95 transition-all group"
       >
-        {isOpen ? <X className="text-white" /> : <MessageSquare className="text-white group-hover:rotate-12 transition-transform" />}
+        {isOpen ? <X className="text-on-accent" /> : <MessageSquare className="text-on-accent group-hover:rotate-12 transition-transform" />}
       </button>
     </div>
   );
 };
 
+// Native <select> so the list is usable with a keyboard and on phones without extra code
+const LocaleSwitcher = ({ className }: { className: string }) => {
+  const { locale, t, setLocale } = useI18n();
+  return (
+    <select
+      value={locale}
+      onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+      aria-label={t('nav.language')}
+      title={t('nav.language')}
+      className={`bg-transparent border border-white/10 rounded-full outline-none focus:border-blue-500/50 font-bold text-gray-300 hover:text-white cursor-pointer transition-colors [&>option]:bg-slate-900 ${className}`}
+    >
+      {(Object.keys(LOCALES) as Locale[]).map(code => (
+        <option key={code} value={code}>{LOCALES[code].label}</option>
+      ))}
+    </select>
+  );
+};
+
+const THEME_ICONS: Record<ThemePreference, React.ElementType> = { system: Monitor, light: Sun, dark: Moon };
+
+// Cycles system → light → dark; the icon shows the current choice
+const ThemeToggle = () => {
+  const { t } = useI18n();
+  const { preference, setPreference } = useTheme();
+  const Icon = THEME_ICONS[preference];
+  const next = THEME_PREFERENCES[(THEME_PREFERENCES.indexOf(preference) + 1) % THEME_PREFERENCES.length];
+  const label = t('nav.theme', { mode: t(`theme.${preference}`) });
+
+  return (
+    <button
+      onClick={() => setPreference(next)}
+      aria-label={label}
+      title={label}
+      className="p-2 rounded-full border border-white/10 text-gray-300 hover:text-white transition-colors"
+    >
+      <Icon size={16} />
+    </button>
+  );
+};
+
 const Navbar = () => {
+  const { t } = useI18n();
   const [isScrolled, setIsScrolled] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const menuButtonRef = useRef<HTMLButtonElement>(null);
+
+  // Esc closes the menu and puts focus back on its button
+  useEscapeKey(isMobileMenuOpen, () => {
+    setIsMobileMenuOpen(false);
+    menuButtonRef.current?.focus();
+  });
 
   useEffect(() => {
     const handleScroll = () => setIsScrolled(window.scrollY > 20);
@@ -209,63 +563,87 @@ const Navbar = () => {
   }, []);
 
   const navLinks = [
-    { name: 'About', href: '#about' },
-    { name: 'Projects', href: '#projects' },
-    { name: 'Skills', href: '#skills' },
-    { name: 'Contact', href: '#contact' },
+    { name: t('nav.about'), href: '/#about' },
+    { name: t('nav.projects'), href: '/projects' },
+    { name: t('nav.skills'), href: '/#skills' },
+    { name: t('nav.blog'), href: '/blog' },
+    { name: t('nav.contact'), href: '/contact' },
   ];
 
+  // Page links light up anywhere under their path; section links only on that section
+  const { pathname, hash } = useLocation();
+  const isActive = (href: string) => {
+    const [path, section] = href.split('#');
+    if (section) return pathname === '/' && hash === `#${section}`;
+    return pathname === path || pathname.startsWith(`${path}/`);
+  };
+
   return (
     <nav className={`fixed top-0 left-0 right-0 z-50 transition-all duration-500 ${isScrolled ? 'py-3 glass shadow-2xl' : 'py-6 bg-transparent'}`}>
       <div className="container mx-auto px-6 flex justify-between items-center">
-        <a href="#" className="flex items-center gap-2 group">
+        <Link href="/" className="flex items-center gap-2 group">
           <div className="w-8 h-8 rounded-lg bg-gradient-to-tr from-blue-600 to-purple-600 flex items-center justify-center group-hover:rotate-12 transition-transform">
-            <Code2 size={18} className="text-white" />
+            <Code2 size={18} className="text-on-accent" />
           </div>
           <span className="text-xl font-bold tracking-tight">
-            <span className="gradient-text">CHRIST</span>TECH
+            <span className="gradient-text">{SITE.logo.highlight}</span>{SITE.logo.rest}
           </span>
-        </a>
+        </Link>
 
         <div className="hidden md:flex items-center space-x-10">
           {navLinks.map((link) => (
-            <a
-              key={link.name}
+            <Link
+              key={link.href}
               href={link.href}
-              className="text-xs font-semibold text-gray-400 hover:text-white transition-colors uppercase tracking-[0.2em]"
+              aria-current={isActive(link.href) ? 'page' : undefined}
+              className={`text-xs font-semibold hover:text-white transition-colors uppercase tracking-[0.2em] ${isActive(link.href) ? 'text-white' : 'text-gray-400'}`}
             >
               {link.name}
-            </a>
+            </Link>
           ))}
-          <a
-            href="#contact"
-            className="px-6 py-2 rounded-full bg-blue-600 hover:bg-blue-700 text-xs font-bold transition-all hover:shadow-xl hover:shadow-blue-500/25 active:scale-95 text-white"
+          <div className="flex items-center gap-3">
+            <ThemeToggle />
+            <LocaleSwitcher className="px-3 py-1.5 text-xs" />
+          </div>
+          <Link
+            href="/contact"
+            className="px-6 py-2 rounded-full bg-blue-600 hover:bg-blue-700 text-xs font-bold transition-all hover:shadow-xl hover:shadow-blue-500/25 active:scale-95 text-on-accent"
           >
-            GET IN TOUCH
-          </a>
+            {t('nav.getInTouch')}
+          </Link>
         </div>
 
         <button
+          ref={menuButtonRef}
           className="md:hidden p-2 text-gray-300 hover:text-white transition-colors"
           onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
+          aria-label={t('nav.menu')}
+          aria-expanded={isMobileMenuOpen}
+          aria-controls={isMobileMenuOpen ? 'mobile-menu' : undefined}
+          title={t('nav.menu')}
         >
           {isMobileMenuOpen ? <X size={24} /> : <Menu size={24} />}
         </button>
       </div>
 
       {isMobileMenuOpen && (
-        <div className="md:hidden absolute top-full left-0 right-0 glass border-t border-white/5 animate-in fade-in zoom-in duration-300">
+        <div id="mobile-menu" className="md:hidden absolute top-full left-0 right-0 glass border-t border-white/5 animate-in fade-in zoom-in duration-300">
           <div className="flex flex-col p-8 space-y-6 text-center">
             {navLinks.map((link) => (
-              <a
-                key={link.name}
+              <Link
+                key={link.href}
                 href={link.href}
-                className="text-2xl font-bold hover:text-blue-400 transition-colors text-white"
+                aria-current={isActive(link.href) ? 'page' : undefined}
+                className={`text-2xl font-bold hover:text-blue-400 transition-colors ${isActive(link.href) ? 'text-blue-400' : 'text-white'}`}
                 onClick={() => setIsMobileMenuOpen(false)}
               >
                 {link.name}.
-              </a>
+              </Link>
             ))}
+            <div className="flex items-center justify-center gap-3">
+              <ThemeToggle />
+              <LocaleSwitcher className="px-4 py-2 text-sm" />
+            </div>
           </div>
         </div>
       )}
@@ -274,6 +652,7 @@ const Navbar = () => {
 };
 
 const Hero = () => {
+  const { t } = useI18n();
   return (
     <section className="relative min-h-screen flex items-center pt-24 overflow-hidden">
       <div className="absolute top-[-10%] left-[-5%] w-[40rem] h-[40rem] bg-blue-600/10 rounded-full blur-[120px] -z-10 animate-pulse"></div>
@@ -281,43 +660,47 @@ const Hero = () => {
 
       <div className="container mx-auto px-6 grid lg:grid-cols-12 gap-12 items-center">
         <div className="lg:col-span-7 space-y-8">
-          <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full glass border border-blue-500/20 text-blue-400 text-xs font-bold uppercase tracking-widest">
-            <span className="relative flex h-2 w-2">
-              <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-blue-400 opacity-75"></span>
-              <span className="relative inline-flex rounded-full h-2 w-2 bg-blue-500"></span>
-            </span>
-            Available for new projects
-          </div>
+          {SITE.hero.availability && (
+            <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full glass border border-blue-500/20 text-blue-400 text-xs font-bold uppercase tracking-widest">
+              <span className="relative flex h-2 w-2">
+                <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-blue-400 opacity-75"></span>
+                <span className="relative inline-flex rounded-full h-2 w-2 bg-blue-500"></span>
+              </span>
+              {SITE.hero.availability}
+            </div>
+          )}
 
           <h1 className="text-4xl sm:text-6xl md:text-8xl font-black leading-[0.9] tracking-tighter text-white">
-            Building <br />
-            <span className="gradient-text">Intelligent</span> <br />
-            Systems.
+            {SITE.hero.headline.before} <br />
+            <span className="gradient-text">{SITE.hero.headline.highlight}</span> <br />
+            {SITE.hero.headline.after}
           </h1>
 
           <p className="text-gray-400 text-lg md:text-xl max-w-xl leading-relaxed font-medium">
-            Machine Learning & Robotics Engineer specializing in AI-driven solutions, autonomous systems, and intelligent mobile applications.
+            {SITE.hero.intro}
           </p>
 
           <div className="flex flex-wrap gap-5 pt-4">
             <a href="#projects" className="px-10 py-5 bg-white text-black hover:bg-gray-200 rounded-2xl font-extrabold transition-all hover:-translate-y-1 flex items-center gap-3">
-              EXPLORE WORK <ArrowRight size={20} />
+              {t('hero.explore')} <ArrowRight size={20} />
             </a>
             <a href="#contact" className="px-10 py-5 glass border border-white/10 hover:border-white/20 rounded-2xl font-extrabold transition-all flex items-center gap-3 text-white">
-              LET'S CHAT
+              {t('hero.chat')}
             </a>
           </div>
 
-          <div className="flex items-center gap-8 pt-8 opacity-40 hover:opacity-100 transition-opacity">
-            <a href="https://github.com/ChristTech" target="_blank" rel="noopener noreferrer" className="hover:text-blue-500 transition-colors text-white"><Github size={22} /></a>
-            <a href="https://www.linkedin.com/in/christtech" target="_blank" rel="noopener noreferrer" className="hover:text-blue-500 transition-colors text-white"><Linkedin size={22} /></a>
-            <a href="mailto:adebisivictor39@gmail.com" className="hover:text-blue-500 transition-colors text-white"><Mail size={22} /></a>
+          <div className="flex items-center gap-8 pt-8 muted-icons hover:opacity-100 transition-opacity">
+            <a href={SITE_LINKS.github} target="_blank" rel="noopener noreferrer" aria-label="GitHub" className="hover:text-blue-500 transition-colors text-white"><Github size={22} /></a>
+            {SITE_LINKS.linkedin && (
+              <a href={SITE_LINKS.linkedin} target="_blank" rel="noopener noreferrer" aria-label="LinkedIn" className="hover:text-blue-500 transition-colors text-white"><Linkedin size={22} /></a>
+            )}
+            <a href={SITE_LINKS.email} aria-label={t('links.email')} className="hover:text-blue-500 transition-colors text-white"><Mail size={22} /></a>
           </div>
         </div>
 
         <div className="lg:col-span-5 relative hidden lg:block">
           <div className="relative z-10 p-1 rounded-[2.5rem] bg-gradient-to-br from-white/10 to-transparent border border-white/5 backdrop-blur-xl floating">
-            <div className="bg-[#020617]/90 rounded-[2.3rem] overflow-hidden p-10 border border-white/5 shadow-2xl">
+            <div className="bg-slate-950/90 rounded-[2.3rem] overflow-hidden p-10 border border-white/5 shadow-2xl">
               <div className="flex gap-2 mb-8">
                 <div className="w-3 h-3 rounded-full bg-[#ff5f56]"></div>
                 <div className="w-3 h-3 rounded-full bg-[#ffbd2e]"></div>
@@ -325,10 +708,10 @@ const Hero = () => {
               </div>
               <div className="mono space-y-4 text-sm md:text-base text-white">
                 <p><span className="text-blue-400">const</span> <span className="text-purple-400">profile</span> = {'{'}</p>
-                <p className="pl-6">name: <span className="text-emerald-400">'CHRISTTech'</span>,</p>
-                <p className="pl-6">role: <span className="text-emerald-400">'ML & Robotics Engineer'</span>,</p>
-                <p className="pl-6">focus: <span className="text-emerald-400">'AI & Automation'</span>,</p>
-                <p className="pl-6">status: <span className="text-blue-400">'Building the Future'</span></p>
+                <p className="pl-6">name: <span className="text-emerald-400">'{SITE.name}'</span>,</p>
+                <p className="pl-6">role: <span className="text-emerald-400">'{SITE.role}'</span>,</p>
+                <p className="pl-6">focus: <span className="text-emerald-400">'{SITE.hero.card.focus}'</span>,</p>
+                <p className="pl-6">status: <span className="text-blue-400">'{SITE.hero.card.status}'</span></p>
                 <p>{'};'}</p>
                 <div className="pt-4 border-t border-white/5 mt-4">
                   <p className="text-gray-500">// Terminal ready...</p>
@@ -351,25 +734,49 @@ const Hero = () => {
   );
 };
 
+// GitHub's preview image, then the one generated at build time, then the site's own
+// (for repos newer than the build). Decorative: the title next to it names the project.
+const ProjectImage = ({ project, className }: { project: Project, className: string }) => {
+  const sources = [project.image, projectOgImage(project.repo), SITE_OG_IMAGE];
+  const [attempt, setAttempt] = useState(0);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const next = () => setAttempt(current => Math.min(current + 1, sources.length - 1));
+
+  // A pre-rendered image can fail before hydration, when React isn't listening yet
+  useEffect(() => {
+    const image = imageRef.current;
+    if (image?.complete && image.naturalWidth === 0) next();
+  }, []);
+
+  return <img ref={imageRef} src={sources[attempt]} alt="" onError={next} className={className} />;
+};
+
 const ProjectCard = ({ project, index }: { project: Project, index: number }) => {
+  const { t } = useI18n();
   const { ref, isVisible } = useReveal();
+  const trackClick = (target: ProjectClickTarget) => () => track({ type: 'project_click', repo: project.repo, target });
 
   return (
     <div
       ref={ref as any}
+      id={projectAnchorId(project.repo)}
       style={{ transitionDelay: `${index * 150}ms` }}
-      className={`group relative glass rounded-[2rem] overflow-hidden border border-white/5 hover:border-blue-500/40 hover:-translate-y-3 hover:shadow-2xl hover:shadow-blue-500/10 transition-all duration-500 ease-out reveal ${isVisible ? 'visible' : ''}`}
+      className={`group relative glass rounded-[2rem] overflow-hidden border ${project.featured ? 'border-yellow-400/20' : 'border-white/5'} hover:border-blue-500/40 hover:-translate-y-3 hover:shadow-2xl hover:shadow-blue-500/10 transition-all duration-500 ease-out reveal ${isVisible ? 'visible' : ''}`}
     >
       <div className="relative aspect-[16/10] overflow-hidden">
-        <img
-          src={project.image}
-          alt={project.title}
+        <ProjectImage
+          project={project}
           className="w-full h-full object-cover transition-transform duration-1000 group-hover:scale-110 grayscale-[30%] group-hover:grayscale-0"
         />
         <div className="absolute inset-0 bg-gradient-to-t from-slate-950 via-slate-950/20 to-transparent opacity-60 group-hover:opacity-40 transition-opacity"></div>
+        {project.featured && (
+          <div className="absolute top-4 left-4 flex items-center gap-1.5 px-3 py-1.5 rounded-full glass border border-yellow-400/30 text-yellow-300 text-[10px] font-black uppercase tracking-widest">
+            <Star size={12} className="fill-yellow-300" /> {t('projects.featured')}
+          </div>
+        )}
         <div className="absolute top-4 right-4 flex gap-2">
           {project.github && (
-            <a href={project.github} className="p-2.5 rounded-full glass hover:bg-white/10 transition-colors text-white">
+            <a href={project.github} onClick={trackClick('github')} aria-label={t('projects.openGithub', { title: project.title })} className="p-2.5 rounded-full glass hover:bg-white/10 transition-colors text-white">
               <Github size={18} />
             </a>
           )}
@@ -380,7 +787,9 @@ const ProjectCard = ({ project, index }: { project: Project, index: number }) =>
         <div className="flex justify-between items-start">
           <div className="space-y-1">
             <span className="text-[10px] font-black tracking-[0.2em] text-blue-500 uppercase">{project.category}</span>
-            <h3 className="text-2xl font-bold tracking-tight group-hover:text-blue-400 transition-colors text-white">{project.title}</h3>
+            <h3 className="text-2xl font-bold tracking-tight group-hover:text-blue-400 transition-colors text-white">
+              <Link href={projectHref(project.repo)} onClick={trackClick('details')}>{project.title}</Link>
+            </h3>
           </div>
         </div>
 
@@ -397,86 +806,133 @@ const ProjectCard = ({ project, index }: { project: Project, index: number }) =>
         </div>
 
         <div className="pt-6 mt-2 border-t border-white/5 flex items-center justify-between">
-          <a href={project.link} className="inline-flex items-center gap-2 text-xs font-black uppercase tracking-widest text-white hover:text-blue-400 transition-colors">
-            View Project <ExternalLink size={14} />
-          </a>
+          <Link href={projectHref(project.repo)} onClick={trackClick('details')} className="inline-flex items-center gap-2 text-xs font-black uppercase tracking-widest text-white hover:text-blue-400 transition-colors">
+            {t('projects.view')} <ArrowRight size={14} />
+          </Link>
+          {project.link && project.link !== project.github && (
+            <a href={project.link} target="_blank" rel="noopener noreferrer" onClick={trackClick('homepage')} aria-label={t('projects.openHomepage')} className="text-gray-500 hover:text-white transition-colors" title={t('projects.openHomepage')}>
+              <ExternalLink size={16} />
+            </a>
+          )}
         </div>
       </div>
     </div>
   );
 };
 
+// One line telling the visitor how fresh the project list is and when it will refresh
+const describeProjectsFreshness = (
+  { source, fetchedAt, refreshing, rateLimit }: ProjectsState,
+  { t, formatDate }: Pick<ReturnType<typeof useI18n>, 't' | 'formatDate'>
+): string => {
+  const time = (value: number) => formatDate(value, { hour: '2-digit', minute: '2-digit' });
+  const parts: string[] = [];
+  if (source === 'snapshot') {
+    parts.push(fetchedAt ? t('projects.snapshotFrom', { date: formatDate(fetchedAt) }) : t('projects.snapshot'));
+  } else if (source === 'cache' && fetchedAt) {
+    parts.push(t('projects.cachedAt', { time: time(fetchedAt) }));
+  }
+  if (refreshing) parts.push(t('projects.refreshing'));
+  if (rateLimit && rateLimit.remaining === 0) {
+    parts.push(t('projects.rateLimited', { time: time(rateLimit.resetAt) }));
+  }
+  return parts.join(' ');
+};
+
 const Projects = () => {
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState('');
+  const i18n = useI18n();
+  const { t } = i18n;
+  const projectsState = useProjects();
+  const { projects: allProjects, loading, error } = projectsState;
+  const freshness = describeProjectsFreshness(projectsState, i18n);
 
-  useEffect(() => {
-    const fetchGitHubProjects = async () => {
-      try {
-        // Get GitHub token from environment
-        const token = (import.meta as any).env?.VITE_GITHUB_TOKEN;
-
-        // Fetch repositories with authentication
-        const response = await fetch('https://api.github.com/users/ChristTech/repos?sort=updated&per_page=20', {
-          headers: token ? {
-            'Authorization': `token ${token}`
-          } : {}
-        });
-        if (!response.ok) throw new Error('Failed to fetch repositories');
-
-        const repos: GitHubRepo[] = await response.json();
-
-        // Filter out profile readme and projects without descriptions
-        const validRepos = repos.filter(repo =>
-          !repo.name.includes('ChristTech') && // Filter out profile readme
-          repo.description // Has a description (indicates a real, documented project)
-        );
-
-        // Shuffle for variety on each page load
-        const shuffled = validRepos.sort(() => Math.random() - 0.5);
-
-        // Map to project format and take top 6
-        const mappedProjects: Project[] = shuffled
-          .slice(0, 6)
-          .map(repo => ({
-            title: repo.name.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
-            category: repo.language || 'Open Source',
-            description: repo.description || 'An innovative project showcasing technical excellence.',
-            image: `https://opengraph.githubassets.com/1/${repo.html_url.replace('https://github.com/', '')}`,
-            tags: repo.topics.length > 0 ? repo.topics.slice(0, 4) : [repo.language || 'Code'],
-            link: repo.homepage || repo.html_url,
-            github: repo.html_url,
-            stars: repo.stargazers_count,
-            language: repo.language,
-            updated: new Date(repo.updated_at).toLocaleDateString()
-          }));
-
-        setProjects(mappedProjects);
-        setLoading(false);
-      } catch (err) {
-        console.error('GitHub API Error:', err);
-        setError('Unable to load projects');
-        setLoading(false);
-      }
-    };
+  const { filters, updateFilters } = useProjectFilters();
+  const [visibleCount, setVisibleCount] = useState(PROJECTS_LIMIT);
 
-    fetchGitHubProjects();
-  }, []);
+  const facets = useMemo(() => projectFacets(allProjects), [allProjects]);
+  const matches = useMemo(() => filterProjects(allProjects, filters), [allProjects, filters]);
+  const projects = matches.slice(0, visibleCount);
+  const isFiltered = filters.query || filters.language || filters.topic || filters.sort !== DEFAULT_FILTERS.sort;
+
+  // Start from the first page whenever the filters change
+  useEffect(() => setVisibleCount(PROJECTS_LIMIT), [filters]);
 
   return (
     <section id="projects" className="py-32 relative">
       <div className="container mx-auto px-6">
         <div className="flex flex-col md:flex-row md:items-end justify-between gap-8 mb-20">
           <div className="space-y-4">
-            <h2 className="text-xs font-black text-blue-500 uppercase tracking-[0.4em]">Portfolio</h2>
-            <h3 className="text-3xl sm:text-5xl md:text-7xl font-black tracking-tighter text-white">Latest <span className="gradient-text">Projects.</span></h3>
+            <h2 className="text-xs font-black text-blue-500 uppercase tracking-[0.4em]">{t('projects.eyebrow')}</h2>
+            <h3 className="text-3xl sm:text-5xl md:text-7xl font-black tracking-tighter text-white">{t('projects.title')} <span className="gradient-text">{t('projects.titleHighlight')}</span></h3>
           </div>
           <p className="text-gray-400 max-w-md font-medium leading-relaxed">
-            Building intelligent systems that combine machine learning, robotics, and cutting-edge software engineering.
+            {t('projects.intro')}
           </p>
         </div>
 
+        {!loading && !error && allProjects.length > 0 && (
+          <div className="mb-12 space-y-5">
+            <div className="flex flex-col sm:flex-row gap-4">
+              <div className="relative flex-1">
+                <Search size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500" />
+                <input
+                  type="search"
+                  value={filters.query}
+                  onChange={(e) => updateFilters({ query: e.target.value })}
+                  placeholder={t('projects.search')}
+                  aria-label={t('projects.search')}
+                  className="w-full bg-white/5 border border-white/10 rounded-2xl pl-11 pr-4 py-3 outline-none focus:border-blue-500/50 transition-all font-medium text-white text-sm"
+                />
+              </div>
+              <select
+                value={filters.sort}
+                onChange={(e) => updateFilters({ sort: e.target.value as ProjectSort })}
+                aria-label={t('projects.sort')}
+                className="bg-white/5 border border-white/10 rounded-2xl px-4 py-3 outline-none focus:border-blue-500/50 text-sm font-bold text-white [&>option]:bg-slate-900"
+              >
+                <option value="pinned">{t('projects.sortPinned')}</option>
+                <option value="stars">{t('projects.sortStars')}</option>
+                <option value="updated">{t('projects.sortUpdated')}</option>
+              </select>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {facets.languages.map(([language, count]) => (
+                <button
+                  key={language}
+                  onClick={() => updateFilters({ language: filters.language === language ? '' : language })}
+                  className={`px-3 py-1.5 rounded-lg text-[11px] font-bold tracking-wider border transition-all ${filters.language === language ? 'bg-blue-600 border-blue-500 text-on-accent' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'}`}
+                >
+                  {language} <span className="opacity-60">{count}</span>
+                </button>
+              ))}
+            </div>
+
+            {facets.topics.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {facets.topics.slice(0, 16).map(([topic]) => (
+                  <button
+                    key={topic}
+                    onClick={() => updateFilters({ topic: filters.topic === topic ? '' : topic })}
+                    className={`px-3 py-1 rounded-full text-[10px] font-bold tracking-wider border transition-all ${filters.topic === topic ? 'bg-purple-600 border-purple-500 text-on-accent' : 'border-white/10 text-gray-500 hover:text-white'}`}
+                  >
+                    #{topic}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {isFiltered && (
+              <div className="flex items-center gap-4 text-xs text-gray-500">
+                <span>{t('projects.count', { shown: matches.length, total: allProjects.length })}</span>
+                <button onClick={() => updateFilters(DEFAULT_FILTERS)} className="font-bold text-blue-400 hover:text-blue-300">
+                  {t('projects.clear')}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
         {loading ? (
           <div className="flex justify-center items-center py-20">
             <div className="flex gap-2">
@@ -486,20 +942,40 @@ const Projects = () => {
             </div>
           </div>
         ) : error ? (
+          <div className="text-center py-20 space-y-3">
+            <p className="text-red-400 text-lg">{t('projects.error')}</p>
+            {freshness && <p className="text-gray-500 text-sm">{freshness}</p>}
+          </div>
+        ) : projects.length === 0 ? (
           <div className="text-center py-20">
-            <p className="text-red-400 text-lg">{error}</p>
+            <p className="text-gray-400 text-lg">{t('projects.empty')}</p>
           </div>
         ) : (
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
             {projects.map((proj, idx) => (
-              <ProjectCard key={proj.title} project={proj} index={idx} />
+              <ProjectCard key={proj.repo} project={proj} index={idx % PROJECTS_LIMIT} />
             ))}
           </div>
         )}
 
+        {projects.length < matches.length && (
+          <div className="mt-12 flex justify-center">
+            <button
+              onClick={() => setVisibleCount(visibleCount + PROJECTS_LIMIT)}
+              className="px-8 py-3 glass border border-white/10 hover:border-blue-500/40 rounded-2xl text-sm font-bold text-white transition-all"
+            >
+              {t('projects.loadMore')} <span className="text-gray-500">({matches.length - projects.length})</span>
+            </button>
+          </div>
+        )}
+
+        {!loading && !error && freshness && (
+          <p className="mt-10 text-center text-xs text-gray-500 mono">{freshness}</p>
+        )}
+
         <div className="mt-20 flex justify-center">
-          <a href="https://github.com/ChristTech" target="_blank" rel="noopener noreferrer" className="group flex items-center gap-4 px-8 py-4 glass border border-white/10 rounded-2xl font-bold hover:bg-white/5 transition-all text-white">
-            VIEW ALL ON GITHUB <Github className="group-hover:rotate-12 transition-transform" />
+          <a href={SITE_LINKS.github} target="_blank" rel="noopener noreferrer" className="group flex items-center gap-4 px-8 py-4 glass border border-white/10 rounded-2xl font-bold hover:bg-white/5 transition-all text-white">
+            {t('projects.viewAll')} <Github className="group-hover:rotate-12 transition-transform" />
           </a>
         </div>
       </div>
@@ -507,35 +983,30 @@ const Projects = () => {
   );
 };
 
+const skillIcons: Record<SkillGroup['icon'], React.ElementType> = {
+  cpu: Cpu,
+  zap: Zap,
+  layers: Layers
+};
+
+const toSkillCategory = (group: SkillGroup): SkillCategory => ({
+  title: group.title,
+  Icon: skillIcons[group.icon],
+  iconColor: group.iconColor,
+  items: group.items
+});
+
 const Skills = () => {
+  const { t } = useI18n();
   const { ref, isVisible } = useReveal();
-  const categories: SkillCategory[] = [
-    {
-      title: "Machine Learning & AI",
-      Icon: Cpu,
-      iconColor: "text-blue-400",
-      items: ["TensorFlow / PyTorch", "Scikit-learn", "Computer Vision", "NLP & LLMs", "Model Deployment"]
-    },
-    {
-      title: "Robotics & Hardware",
-      Icon: Zap,
-      iconColor: "text-purple-400",
-      items: ["ROS", "Arduino / Raspberry Pi", "Sensor Integration", "Control Systems", "Embedded Systems"]
-    },
-    {
-      title: "Development Stack",
-      Icon: Layers,
-      iconColor: "text-pink-400",
-      items: ["Python (Core)", "Flutter / React Native", "FastAPI / Django", "Docker / Kubernetes", "Git & CI/CD"]
-    }
-  ];
+  const categories: SkillCategory[] = SITE.skills.map(toSkillCategory);
 
   return (
-    <section id="skills" className="py-32 bg-[#020617]/50">
+    <section id="skills" className="py-32 bg-slate-950/50">
       <div className="container mx-auto px-6">
         <div className="text-center max-w-3xl mx-auto mb-20 space-y-6">
-          <h2 className="text-xs font-black text-blue-500 uppercase tracking-[0.4em]">Capabilities</h2>
-          <h3 className="text-3xl sm:text-5xl md:text-6xl font-black text-white">Technical <span className="gradient-text">DNA.</span></h3>
+          <h2 className="text-xs font-black text-blue-500 uppercase tracking-[0.4em]">{t('skills.eyebrow')}</h2>
+          <h3 className="text-3xl sm:text-5xl md:text-6xl font-black text-white">{t('skills.title')} <span className="gradient-text">{t('skills.titleHighlight')}</span></h3>
         </div>
 
         <div ref={ref as any} className={`grid md:grid-cols-3 gap-8 reveal ${isVisible ? 'visible' : ''}`}>
@@ -564,47 +1035,189 @@ const Skills = () => {
   );
 };
 
-const Contact = () => {
-  const [formState, setFormState] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
+// Chosen by VITE_CONTACT_PROVIDER; `vite build` fails when it is missing its key
+const CONTACT_PROVIDER = createContactProvider(contactProviderFromEnv(ENV));
+
+const INPUT_CLASS = 'w-full bg-white/5 border rounded-2xl px-5 py-4 outline-none transition-all font-medium text-white';
+
+const inputBorder = (invalid: boolean) => (invalid ? 'border-red-400/60 focus:border-red-400' : 'border-white/10 focus:border-blue-500/50');
+
+// The confirmation shown after sending: the inquiry type and every field as submitted
+const ContactSummary = ({ fields }: { fields: ContactFields }) => {
+  const { t } = useI18n();
+  const rows = activeFields(fields.inquiry).filter(field => field !== 'message');
+  return (
+    <div className="text-left glass rounded-2xl p-5 sm:p-6 space-y-4 border border-white/5">
+      <p className="text-[10px] font-black text-gray-500 uppercase tracking-widest">{t('contact.summary')}</p>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+        <dt className="text-gray-500">{t('contact.inquiry')}</dt>
+        <dd className="text-white font-medium">{t(INQUIRY_LABELS[fields.inquiry])}</dd>
+        {rows.map(field => {
+          const choice = choiceLabel(field, fields[field]);
+          return (
+            <React.Fragment key={field}>
+              <dt className="text-gray-500">{t(field === 'name' || field === 'email' ? `contact.${field}` : DETAIL_LABELS[field])}</dt>
+              <dd className="text-white font-medium break-words whitespace-pre-line">{choice ? t(choice) : fields[field].trim()}</dd>
+            </React.Fragment>
+          );
+        })}
+      </dl>
+      <p className="text-sm text-gray-400 whitespace-pre-line line-clamp-6 border-t border-white/5 pt-4">{fields.message.trim()}</p>
+      <p className="text-xs text-gray-500">{t('contact.summaryReply', { email: fields.email.trim() })}</p>
+    </div>
+  );
+};
+
+const Contact = ({ provider = CONTACT_PROVIDER }: { provider?: ContactProvider }) => {
+  const { t } = useI18n();
+  const [formState, setFormState] = useState<'idle' | 'loading' | 'success' | 'queued' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState('');
-  const formRef = useRef<HTMLFormElement>(null);
+  const [draftRestored, setDraftRestored] = useState(false);
+  const [fields, setFields] = useState<ContactFields>(EMPTY_CONTACT);
+  // What the visitor sent, repeated back to them on the success screen
+  const [sent, setSent] = useState<ContactFields | null>(null);
+  const [honeypot, setHoneypot] = useState('');
+  // Fields are checked once the visitor leaves them, and all of them on submit
+  const [touched, setTouched] = useState<Partial<Record<ContactField, boolean>>>({});
+  const startedAt = useRef(Date.now());
+  const pending = useOutboxSize();
+  const rejected = useOutboxRejected();
+
+  // A draft left from an earlier visit is restored after mounting (the pre-rendered form
+  // is empty), along with when it was started
+  useEffect(() => {
+    const draft = loadDraft();
+    if (!draft) return;
+    startedAt.current = draft.startedAt;
+    setFields(draft.fields);
+    setDraftRestored(true);
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => saveDraft({ startedAt: startedAt.current, fields }), DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [fields]);
+
+  const errors = validateContact(fields);
+  const fieldError = (field: ContactField) => {
+    const error = touched[field] && errors[field];
+    return error ? t(error.key, error.params) : '';
+  };
+
+  const updateField = (field: ContactField) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) =>
+    setFields(prev => ({ ...prev, [field]: e.target.value }));
+
+  // Details typed for another inquiry type are kept, in case the visitor switches back
+  const selectInquiry = (inquiry: InquiryType) => setFields(prev => ({ ...prev, inquiry }));
+
+  const touch = (field: ContactField) => () => setTouched(prev => ({ ...prev, [field]: true }));
+
+  const discardDraft = () => {
+    clearDraft();
+    setFields(EMPTY_CONTACT);
+    setTouched({});
+    setDraftRestored(false);
+    startedAt.current = Date.now();
+  };
+
+  // Puts a message the provider refused back in the form, to be fixed and sent again
+  const editRejected = async () => {
+    const entry = await takeRejected().catch(error => {
+      console.warn('Could not read the contact outbox:', error);
+      return null;
+    });
+    if (!entry) return;
+    startedAt.current = entry.queuedAt;
+    setFields(fieldsFromPayload(entry.submission.fields));
+    setTouched({});
+    setDraftRestored(false);
+    setFormState('idle');
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setFormState('loading');
-    setErrorMessage('');
+    setTouched(Object.fromEntries(activeFields(fields.inquiry).map(field => [field, true])));
+    if (Object.keys(errors).length > 0) return;
+
+    const reset = (state: 'success' | 'queued' = 'success') => {
+      clearDraft();
+      setSent(fields);
+      setFields({ ...EMPTY_CONTACT, inquiry: fields.inquiry });
+      setTouched({});
+      setDraftRestored(false);
+      setFormState(state);
+    };
 
-    const formData = new FormData(e.target as HTMLFormElement);
+    // Bots are shown the success screen without anything being sent
+    if (looksLikeBot({ honeypot, startedAt: startedAt.current })) {
+      reset();
+      return;
+    }
 
-    // Get your access key from https://web3forms.com
-    // Add it to your .env.local file as VITE_WEB3FORMS_KEY
-    const accessKey = import.meta.env.VITE_WEB3FORMS_KEY || 'YOUR_ACCESS_KEY_HERE';
+    const report = (outcome: ContactOutcome, failure?: ContactFailure) =>
+      track({ type: 'contact_result', outcome, inquiry: fields.inquiry, failure });
 
-    formData.append('access_key', accessKey);
-    formData.append('subject', 'New Contact Form Submission from CHRISTTech Portfolio');
-    formData.append('from_name', 'CHRISTTech Portfolio');
+    const retryAfter = contactRetryAfter();
+    if (retryAfter > 0) {
+      report('error', 'session_limit');
+      setFormState('error');
+      setErrorMessage(t('contact.rateLimited', { minutes: Math.ceil(retryAfter / 60) }));
+      return;
+    }
 
-    try {
-      const response = await fetch('https://api.web3forms.com/submit', {
-        method: 'POST',
-        body: formData
-      });
+    setFormState('loading');
+    setErrorMessage('');
 
-      const data = await response.json();
+    const submission = {
+      fields: contactPayload(fields),
+      subject: inquirySubject(fields, SITE.name),
+      fromName: `${SITE.name} Portfolio`
+    };
 
-      if (data.success) {
-        setFormState('success');
-        if (formRef.current) {
-          formRef.current.reset();
-        }
-      } else {
+    // Puts the message in the outbox to be sent once the connection is back.
+    // False when the outbox can't be used (e.g. IndexedDB is blocked).
+    const queue = async (attempts: number) => {
+      try {
+        await queueSubmission(submission, attempts);
+      } catch (error) {
+        console.warn('Could not queue contact message:', error);
+        return false;
+      }
+      recordContactSend();
+      report('queued');
+      reset('queued');
+      return true;
+    };
+
+    // Offline already: queue it rather than make a request that can only fail
+    if (!navigator.onLine) {
+      if (!(await queue(0))) {
+        report('error', 'network');
         setFormState('error');
-        setErrorMessage(data.message || 'Something went wrong. Please try again.');
+        setErrorMessage(t('contact.networkError'));
       }
+      return;
+    }
+
+    try {
+      await provider.submit(submission);
+      recordContactSend();
+      report('sent');
+      reset();
     } catch (error) {
-      setFormState('error');
-      setErrorMessage('Network error. Please check your connection and try again.');
       console.error('Form submission error:', error);
+      if (error instanceof ContactError && error.kind === 'network' && await queue(1)) return;
+      report('error', error instanceof ContactError ? error.kind : 'unknown');
+      setFormState('error');
+      if (!(error instanceof ContactError)) {
+        setErrorMessage(t('contact.error'));
+      } else if (error.kind === 'network') {
+        setErrorMessage(t('contact.networkError'));
+      } else if (error.kind === 'rate_limited') {
+        setErrorMessage(t('contact.rateLimited', { minutes: Math.max(1, Math.ceil((error.retryAfter || 60) / 60)) }));
+      } else {
+        setErrorMessage(error.message || t('contact.error'));
+      }
     }
   };
 
@@ -616,15 +1229,15 @@ const Contact = () => {
         <div className="glass rounded-xl sm:rounded-2xl md:rounded-[3.5rem] p-4 sm:p-6 md:p-10 lg:p-20 grid lg:grid-cols-2 gap-8 sm:gap-10 md:gap-20 items-center relative overflow-hidden border border-white/5">
           <div className="space-y-6 sm:space-y-10 relative z-10">
             <div className="space-y-4">
-              <h2 className="text-xs font-black text-blue-500 uppercase tracking-[0.4em]">Get in touch</h2>
+              <h2 className="text-xs font-black text-blue-500 uppercase tracking-[0.4em]">{t('contact.eyebrow')}</h2>
               <h3 className="text-3xl sm:text-5xl md:text-7xl font-black tracking-tighter leading-tight text-white">
-                Let's build <br />
-                the <span className="gradient-text">Future.</span>
+                {t('contact.titleLine1')} <br />
+                {t('contact.titleLine2')} <span className="gradient-text">{t('contact.titleHighlight')}</span>
               </h3>
             </div>
 
             <p className="text-gray-400 text-sm sm:text-base md:text-lg lg:text-xl font-medium leading-relaxed max-w-md">
-              Whether you have a groundbreaking idea or just want to discuss the latest tech stack, my door is always open.
+              {SITE.contact.intro}
             </p>
 
             <div className="space-y-4 sm:space-y-6 md:space-y-8 pt-4">
@@ -633,94 +1246,247 @@ const Contact = () => {
                   <Mail className="text-blue-400" size={18} />
                 </div>
                 <div className="min-w-0 flex-1">
-                  <p className="text-[10px] text-gray-500 uppercase font-black tracking-widest">Email Address</p>
-                  <p className="text-sm sm:text-base md:text-lg lg:text-xl font-bold text-white break-all">adebisivictor39@gmail.com</p>
+                  <p className="text-[10px] text-gray-500 uppercase font-black tracking-widest">{t('contact.emailAddress')}</p>
+                  <p className="text-sm sm:text-base md:text-lg lg:text-xl font-bold text-white break-all">{SITE.contact.email}</p>
                 </div>
               </div>
-              <div className="flex items-center gap-3 sm:gap-6 group">
-                <div className="w-10 h-10 sm:w-14 sm:h-14 rounded-2xl glass flex items-center justify-center group-hover:scale-110 transition-transform flex-shrink-0">
-                  <Phone className="text-green-400" size={18} />
-                </div>
-                <div className="min-w-0 flex-1">
-                  <p className="text-[10px] text-gray-500 uppercase font-black tracking-widest">WhatsApp</p>
-                  <a href="https://wa.me/2349018114203" target="_blank" rel="noopener noreferrer" className="text-sm sm:text-base md:text-lg lg:text-xl font-bold text-white hover:text-green-400 transition-colors break-words">Chat on WhatsApp</a>
+              {SITE_LINKS.whatsapp && (
+                <div className="flex items-center gap-3 sm:gap-6 group">
+                  <div className="w-10 h-10 sm:w-14 sm:h-14 rounded-2xl glass flex items-center justify-center group-hover:scale-110 transition-transform flex-shrink-0">
+                    <Phone className="text-green-400" size={18} />
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-[10px] text-gray-500 uppercase font-black tracking-widest">{t('contact.whatsapp')}</p>
+                    <a href={SITE_LINKS.whatsapp} target="_blank" rel="noopener noreferrer" className="text-sm sm:text-base md:text-lg lg:text-xl font-bold text-white hover:text-green-400 transition-colors break-words">{t('contact.whatsappCta')}</a>
+                  </div>
                 </div>
-              </div>
+              )}
               <div className="flex items-center gap-3 sm:gap-6 group">
                 <div className="w-10 h-10 sm:w-14 sm:h-14 rounded-2xl glass flex items-center justify-center group-hover:scale-110 transition-transform flex-shrink-0">
                   <Globe className="text-purple-400" size={18} />
                 </div>
                 <div className="min-w-0 flex-1">
-                  <p className="text-[10px] text-gray-500 uppercase font-black tracking-widest">Location</p>
-                  <p className="text-sm sm:text-base md:text-lg lg:text-xl font-bold text-white">Remote</p>
+                  <p className="text-[10px] text-gray-500 uppercase font-black tracking-widest">{t('contact.location')}</p>
+                  <p className="text-sm sm:text-base md:text-lg lg:text-xl font-bold text-white">{SITE.location}</p>
                 </div>
               </div>
             </div>
           </div>
 
           <div className="relative z-10">
-            {formState === 'success' ? (
-              <div className="glass p-12 rounded-[2.5rem] border border-green-500/20 text-center space-y-6 animate-in zoom-in duration-500">
-                <div className="w-20 h-20 bg-green-500/10 rounded-full flex items-center justify-center mx-auto">
-                  <Sparkles className="text-green-500" size={32} />
+            {/* A refused message brings the form back, so the visitor can edit and resend it */}
+            {formState === 'success' || (formState === 'queued' && (pending > 0 || rejected === 0)) ? (
+              // A queued message switches to the sent screen once the outbox has delivered it
+              formState === 'queued' && pending > 0 ? (
+                <div className="glass p-12 rounded-[2.5rem] border border-amber-200/20 text-center space-y-6 animate-in zoom-in duration-500">
+                  <div className="w-20 h-20 bg-amber-200/10 rounded-full flex items-center justify-center mx-auto">
+                    <CloudOff className="text-amber-200" size={32} />
+                  </div>
+                  <h4 className="text-3xl font-bold text-white">{t('contact.queued')}</h4>
+                  <p className="text-gray-400">{t('contact.queuedText')}</p>
+                  {sent && <ContactSummary fields={sent} />}
                 </div>
-                <h4 className="text-3xl font-bold text-white">Message Sent!</h4>
-                <p className="text-gray-400">CHRISTTech will get back to you faster than a neural network trains!</p>
-                <button
-                  onClick={() => setFormState('idle')}
-                  className="px-8 py-3 glass rounded-xl text-sm font-bold text-white"
-                >
-                  SEND ANOTHER
-                </button>
-              </div>
+              ) : (
+                <div className="glass p-12 rounded-[2.5rem] border border-green-500/20 text-center space-y-6 animate-in zoom-in duration-500">
+                  <div className="w-20 h-20 bg-green-500/10 rounded-full flex items-center justify-center mx-auto">
+                    <Sparkles className="text-green-500" size={32} />
+                  </div>
+                  <h4 className="text-3xl font-bold text-white">{t('contact.sent')}</h4>
+                  <p className="text-gray-400">{t('contact.sentText', { name: SITE.name })}</p>
+                  {sent && <ContactSummary fields={sent} />}
+                  <button
+                    onClick={() => {
+                      startedAt.current = Date.now();
+                      setFormState('idle');
+                    }}
+                    className="px-8 py-3 glass rounded-xl text-sm font-bold text-white"
+                  >
+                    {t('contact.sendAnother')}
+                  </button>
+                </div>
+              )
             ) : (
-              <form ref={formRef} onSubmit={handleSubmit} className="glass p-4 sm:p-6 md:p-10 lg:p-12 rounded-xl sm:rounded-2xl md:rounded-[2.5rem] border border-white/5 shadow-2xl space-y-4 sm:space-y-6">
+              <form onSubmit={handleSubmit} noValidate className="glass p-4 sm:p-6 md:p-10 lg:p-12 rounded-xl sm:rounded-2xl md:rounded-[2.5rem] border border-white/5 shadow-2xl space-y-4 sm:space-y-6">
+                {draftRestored && (
+                  <div className="flex items-center justify-between gap-4 p-4 bg-blue-500/10 border border-blue-500/20 rounded-xl text-sm text-blue-300">
+                    <span>{t('contact.draftRestored')}</span>
+                    <button type="button" onClick={discardDraft} className="font-bold underline underline-offset-4 hover:text-white flex-shrink-0">
+                      {t('contact.discardDraft')}
+                    </button>
+                  </div>
+                )}
+
+                <fieldset className="space-y-3">
+                  <legend className="text-[10px] font-black text-gray-500 uppercase tracking-widest mb-3">{t('contact.inquiry')}</legend>
+                  <div className="flex flex-wrap gap-2">
+                    {INQUIRY_TYPES.map(inquiry => (
+                      <label
+                        key={inquiry}
+                        className={`px-4 py-2 rounded-xl text-xs font-bold tracking-wider border cursor-pointer transition-all has-[:focus-visible]:ring-2 has-[:focus-visible]:ring-blue-500/50 ${fields.inquiry === inquiry ? 'bg-blue-600 border-blue-500 text-on-accent' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'}`}
+                      >
+                        <input
+                          type="radio"
+                          name="inquiry"
+                          value={inquiry}
+                          checked={fields.inquiry === inquiry}
+                          onChange={(e) => isInquiryType(e.target.value) && selectInquiry(e.target.value)}
+                          className="sr-only"
+                        />
+                        {t(INQUIRY_LABELS[inquiry])}
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+
                 <div className="grid md:grid-cols-2 gap-6">
                   <div className="space-y-3">
-                    <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Name</label>
+                    <label htmlFor="contact-name" className="text-[10px] font-black text-gray-500 uppercase tracking-widest">{t('contact.name')}</label>
                     <input
+                      id="contact-name"
                       name="name"
                       required
                       type="text"
-                      className="w-full bg-white/5 border border-white/10 rounded-2xl px-5 py-4 outline-none focus:border-blue-500/50 transition-all font-medium text-white"
-                      placeholder="E.g. Adebisi Victor"
+                      autoComplete="name"
+                      value={fields.name}
+                      onChange={updateField('name')}
+                      onBlur={touch('name')}
+                      aria-invalid={Boolean(fieldError('name'))}
+                      aria-describedby={fieldError('name') ? 'contact-name-error' : undefined}
+                      className={`${INPUT_CLASS} ${inputBorder(Boolean(fieldError('name')))}`}
+                      placeholder={t('contact.namePlaceholder')}
                     />
+                    {fieldError('name') && <p id="contact-name-error" className="text-xs text-red-400">{fieldError('name')}</p>}
                   </div>
                   <div className="space-y-3">
-                    <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Email</label>
+                    <label htmlFor="contact-email" className="text-[10px] font-black text-gray-500 uppercase tracking-widest">{t('contact.email')}</label>
                     <input
+                      id="contact-email"
                       name="email"
                       required
                       type="email"
-                      className="w-full bg-white/5 border border-white/10 rounded-2xl px-5 py-4 outline-none focus:border-blue-500/50 transition-all font-medium text-white"
-                      placeholder="victor@gmail.com"
+                      autoComplete="email"
+                      value={fields.email}
+                      onChange={updateField('email')}
+                      onBlur={touch('email')}
+                      aria-invalid={Boolean(fieldError('email'))}
+                      aria-describedby={fieldError('email') ? 'contact-email-error' : undefined}
+                      className={`${INPUT_CLASS} ${inputBorder(Boolean(fieldError('email')))}`}
+                      placeholder={t('contact.emailPlaceholder')}
                     />
+                    {fieldError('email') && <p id="contact-email-error" className="text-xs text-red-400">{fieldError('email')}</p>}
                   </div>
                 </div>
+                {INQUIRY_DETAILS[fields.inquiry].length > 0 && (
+                  <div className="grid md:grid-cols-2 gap-6">
+                    {INQUIRY_DETAILS[fields.inquiry].map(detail => {
+                      const id = `contact-${detail}`;
+                      const error = fieldError(detail);
+                      const control = {
+                        id,
+                        name: detail,
+                        required: true,
+                        value: fields[detail],
+                        onChange: updateField(detail),
+                        onBlur: touch(detail),
+                        'aria-invalid': Boolean(error),
+                        'aria-describedby': error ? `${id}-error` : undefined
+                      };
+                      return (
+                        <div key={detail} className={`space-y-3 ${detail === 'links' ? 'md:col-span-2' : ''}`}>
+                          <label htmlFor={id} className="text-[10px] font-black text-gray-500 uppercase tracking-widest">{t(DETAIL_LABELS[detail])}</label>
+                          {isChoiceDetail(detail) ? (
+                            <select {...control} className={`${INPUT_CLASS} ${inputBorder(Boolean(error))} [&>option]:bg-slate-900`}>
+                              <option value="" disabled>{t('contact.choose')}</option>
+                              {DETAIL_CHOICES[detail].map(choice => (
+                                <option key={choice.value} value={choice.value}>{t(choice.key)}</option>
+                              ))}
+                            </select>
+                          ) : detail === 'links' ? (
+                            <textarea
+                              {...control}
+                              rows={3}
+                              className={`${INPUT_CLASS} ${inputBorder(Boolean(error))}`}
+                              placeholder={t('contact.linksPlaceholder')}
+                            ></textarea>
+                          ) : (
+                            <input
+                              {...control}
+                              type="number"
+                              inputMode="numeric"
+                              min={STUDENT_AGE.min}
+                              max={STUDENT_AGE.max}
+                              className={`${INPUT_CLASS} ${inputBorder(Boolean(error))}`}
+                              placeholder={t('contact.studentAgePlaceholder')}
+                            />
+                          )}
+                          {error && <p id={`${id}-error`} className="text-xs text-red-400">{error}</p>}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
                 <div className="space-y-3">
-                  <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Message</label>
+                  <label htmlFor="contact-message" className="text-[10px] font-black text-gray-500 uppercase tracking-widest">{t('contact.message')}</label>
                   <textarea
+                    id="contact-message"
                     name="message"
                     required
-                    className="w-full bg-white/5 border border-white/10 rounded-2xl px-5 py-4 outline-none focus:border-blue-500/50 transition-all font-medium min-h-[140px] text-white"
-                    placeholder="Let's work together..."
+                    maxLength={CONTACT_LIMITS.messageMax}
+                    value={fields.message}
+                    onChange={updateField('message')}
+                    onBlur={touch('message')}
+                    aria-invalid={Boolean(fieldError('message'))}
+                    aria-describedby={fieldError('message') ? 'contact-message-error' : undefined}
+                    className={`${INPUT_CLASS} ${inputBorder(Boolean(fieldError('message')))} min-h-[140px]`}
+                    placeholder={t('contact.messagePlaceholder')}
                   ></textarea>
+                  {fieldError('message') && <p id="contact-message-error" className="text-xs text-red-400">{fieldError('message')}</p>}
+                </div>
+
+                {/* Honeypot: off-screen and skipped by keyboard and screen readers */}
+                <div aria-hidden="true" className="absolute -left-[9999px] w-px h-px overflow-hidden">
+                  <label htmlFor={`contact-${HONEYPOT_FIELD}`}>{t('contact.honeypot')}</label>
+                  <input
+                    id={`contact-${HONEYPOT_FIELD}`}
+                    name={HONEYPOT_FIELD}
+                    type="text"
+                    tabIndex={-1}
+                    autoComplete="off"
+                    value={honeypot}
+                    onChange={(e) => setHoneypot(e.target.value)}
+                  />
                 </div>
 
                 {formState === 'error' && (
-                  <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">
+                  <div role="alert" className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">
                     {errorMessage}
                   </div>
                 )}
 
+                {rejected > 0 && (
+                  <div role="alert" className="flex items-center justify-between gap-4 p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-sm text-red-400">
+                    <span>{t('contact.outboxRejected', { count: rejected })}</span>
+                    <button type="button" onClick={editRejected} className="font-bold underline underline-offset-4 hover:text-white flex-shrink-0">
+                      {t('contact.editRejected')}
+                    </button>
+                  </div>
+                )}
+
+                {pending > 0 && (
+                  <p className="flex items-center gap-2 text-xs text-amber-200">
+                    <CloudOff size={14} className="flex-shrink-0" /> {t('contact.outboxPending', { count: pending })}
+                  </p>
+                )}
+
                 <button
                   type="submit"
                   disabled={formState === 'loading'}
                   className="w-full py-5 bg-white text-black hover:bg-gray-200 disabled:bg-gray-500 disabled:cursor-not-allowed rounded-2xl font-black transition-all flex items-center justify-center gap-3 uppercase tracking-widest"
                 >
-                  {formState === 'loading' ? 'Transmitting...' : (
+                  {formState === 'loading' ? t('contact.sending') : (
                     <>
-                      Send Transmission <SendHorizontal size={20} />
+                      {t('contact.send')} <SendHorizontal size={20} />
                     </>
                   )}
                 </button>
@@ -733,62 +1499,82 @@ const Contact = () => {
   );
 };
 
-const Footer = () => (
-  <footer className="py-20 border-t border-white/5">
-    <div className="container mx-auto px-6 flex flex-col md:flex-row justify-between items-center gap-10">
-      <div className="flex items-center gap-2">
-        <div className="w-6 h-6 rounded-md bg-gradient-to-tr from-blue-600 to-purple-600 flex items-center justify-center">
-          <Code2 size={12} className="text-white" />
+// Says whether usage stats are recorded, with the switch to change it. Hidden when
+// the build has no analytics sink.
+const AnalyticsNotice = () => {
+  const { t } = useI18n();
+  const { status, setConsent } = useAnalytics();
+  if (status === 'disabled') return null;
+
+  return (
+    <div className="text-gray-500 text-xs">
+      {status === 'dnt' ? t('analytics.dnt') : (
+        <>
+          {t(status === 'on' ? 'analytics.on' : 'analytics.off')}{' '}
+          <button onClick={() => setConsent(status !== 'on')} className="font-bold underline hover:text-white transition-colors">
+            {t(status === 'on' ? 'analytics.turnOff' : 'analytics.turnOn')}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+const Footer = () => {
+  const { t } = useI18n();
+  return (
+    <footer className="py-20 border-t border-white/5">
+      <div className="container mx-auto px-6 flex flex-col md:flex-row justify-between items-center gap-10">
+        <div className="flex items-center gap-2">
+          <div className="w-6 h-6 rounded-md bg-gradient-to-tr from-blue-600 to-purple-600 flex items-center justify-center">
+            <Code2 size={12} className="text-on-accent" />
+          </div>
+          <span className="text-lg font-black tracking-tight text-white">{`${SITE.logo.highlight}${SITE.logo.rest}`.toUpperCase()}<span className="text-blue-500">.</span></span>
         </div>
-        <span className="text-lg font-black tracking-tight text-white">CHRISTTECH<span className="text-blue-500">.</span></span>
-      </div>
 
-      <div className="text-gray-500 text-xs font-bold uppercase tracking-[0.2em]">
-        © {new Date().getFullYear()} CHRISTTech. Building Intelligent Systems.
-      </div>
+        <div className="space-y-3 text-center">
+          <div className="text-gray-500 text-xs font-bold uppercase tracking-[0.2em]" suppressHydrationWarning>
+            © {new Date().getFullYear()} {SITE.name}. {SITE.tagline}
+          </div>
+          <AnalyticsNotice />
+        </div>
 
-      <div className="flex items-center gap-6">
-        <a href="https://github.com/ChristTech" target="_blank" rel="noopener noreferrer" className="p-3 glass rounded-xl hover:text-blue-400 transition-all text-white"><Github size={18} /></a>
-        <a href="https://www.linkedin.com/in/christtech" target="_blank" rel="noopener noreferrer" className="p-3 glass rounded-xl hover:text-blue-400 transition-all text-white"><Linkedin size={18} /></a>
-        <a href="mailto:adebisivictor39@gmail.com" className="p-3 glass rounded-xl hover:text-blue-400 transition-all text-white"><Mail size={18} /></a>
+        <div className="flex items-center gap-6">
+          <a href={SITE_LINKS.github} target="_blank" rel="noopener noreferrer" aria-label="GitHub" className="p-3 glass rounded-xl hover:text-blue-400 transition-all text-white"><Github size={18} /></a>
+          {SITE_LINKS.linkedin && (
+            <a href={SITE_LINKS.linkedin} target="_blank" rel="noopener noreferrer" aria-label="LinkedIn" className="p-3 glass rounded-xl hover:text-blue-400 transition-all text-white"><Linkedin size={18} /></a>
+          )}
+          <a href={SITE_LINKS.email} aria-label={t('links.email')} className="p-3 glass rounded-xl hover:text-blue-400 transition-all text-white"><Mail size={18} /></a>
+        </div>
       </div>
-    </div>
-  </footer>
-);
+    </footer>
+  );
+};
 
-const App = () => {
+const Home = () => {
+  const { t } = useI18n();
   return (
-    <div className="min-h-screen bg-[#020617] text-slate-100 selection:bg-blue-500/30">
-      <Navbar />
+    <>
       <Hero />
 
       <div id="about" className="py-32 container mx-auto px-6">
         <div className="flex flex-col lg:flex-row gap-24 items-center">
           <div className="flex-1 space-y-10 order-2 lg:order-1">
-            <h2 className="text-xs font-black text-blue-500 uppercase tracking-[0.4em]">About CHRISTTech</h2>
-            <h3 className="text-3xl sm:text-5xl md:text-7xl font-black tracking-tighter text-white">Driven by <br />Innovation <span className="gradient-text">&amp; AI.</span></h3>
+            <h2 className="text-xs font-black text-blue-500 uppercase tracking-[0.4em]">{t('about.eyebrow', { name: SITE.name })}</h2>
+            <h3 className="text-3xl sm:text-5xl md:text-7xl font-black tracking-tighter text-white">{t('about.titleLine1')} <br />{t('about.titleLine2')} <span className="gradient-text">{t('about.titleHighlight')}</span></h3>
             <div className="space-y-6 text-gray-400 text-lg md:text-xl font-medium leading-relaxed">
-              <p>
-                I am a passionate robotics engineer who aims to develop robotics systems that work seamlessly with artificial intelligence to help people, especially in the health sector.
-              </p>
-              <p>
-                I also tutor young aspiring robotics engineers and enthusiasts, sharing my knowledge and passion for building intelligent systems that solve real-world problems.
-              </p>
+              {SITE.about.paragraphs.map(paragraph => (
+                <p key={paragraph}>{paragraph}</p>
+              ))}
             </div>
 
             <div className="grid grid-cols-3 gap-8 pt-8">
-              <div className="space-y-2">
-                <div className="text-5xl font-black tracking-tighter gradient-text">ML</div>
-                <div className="text-[10px] text-gray-500 font-black uppercase tracking-widest">Models Deployed</div>
-              </div>
-              <div className="space-y-2">
-                <div className="text-5xl font-black tracking-tighter gradient-text">AI</div>
-                <div className="text-[10px] text-gray-500 font-black uppercase tracking-widest">Driven Systems</div>
-              </div>
-              <div className="space-y-2">
-                <div className="text-5xl font-black tracking-tighter gradient-text">IOT</div>
-                <div className="text-[10px] text-gray-500 font-black uppercase tracking-widest">Robotics Projects</div>
-              </div>
+              {SITE.about.stats.map(stat => (
+                <div key={stat.label} className="space-y-2">
+                  <div className="text-5xl font-black tracking-tighter gradient-text">{stat.value}</div>
+                  <div className="text-[10px] text-gray-500 font-black uppercase tracking-widest">{stat.label}</div>
+                </div>
+              ))}
             </div>
           </div>
 
@@ -797,13 +1583,14 @@ const App = () => {
               <div className="absolute -inset-4 bg-gradient-to-tr from-blue-600/20 to-purple-600/20 rounded-[3rem] blur-2xl group-hover:scale-105 transition-transform duration-700"></div>
               <div className="aspect-[4/5] glass rounded-[2.5rem] overflow-hidden relative z-10">
                 <img
-                  src="/Myself2.png"
+                  src={SITE.about.photo}
+                  alt={SITE.name}
                   className="w-full h-full object-cover grayscale-[40%] group-hover:grayscale-0 transition-all duration-1000 group-hover:scale-105"
                 />
                 <div className="absolute inset-0 bg-gradient-to-t from-slate-950 via-transparent to-transparent"></div>
                 <div className="absolute bottom-10 left-10 right-10 p-8 glass border-white/5 rounded-3xl">
-                  <div className="font-bold text-2xl tracking-tight text-white">CHRISTTech</div>
-                  <div className="text-blue-400 text-sm font-bold uppercase tracking-widest mt-1">ML & Robotics Engineer</div>
+                  <div className="font-bold text-2xl tracking-tight text-white">{SITE.name}</div>
+                  <div className="text-blue-400 text-sm font-bold uppercase tracking-widest mt-1">{SITE.role}</div>
                 </div>
               </div>
             </div>
@@ -814,18 +1601,133 @@ const App = () => {
       <Projects />
       <Skills />
       <Contact />
+    </>
+  );
+};
+
+const PageFallback = () => {
+  const { t } = useI18n();
+  return <section className="pt-48 pb-32 text-center text-gray-500">{t('common.loading')}</section>;
+};
+
+const ProjectPage = ({ repo }: { repo: string }) => {
+  const { t } = useI18n();
+  const { projects, loading } = useProjects();
+  const project = projects.find(p => p.repo.toLowerCase() === repo.toLowerCase());
+
+  // Back returns to wherever the visitor came from on this site, else to the project list
+  const goBack = () => {
+    if (getLocation().action === 'push') window.history.back();
+    else navigate('/projects');
+  };
+
+  if (!project) {
+    if (loading) return <PageFallback />;
+    return (
+      <section className="pt-48 pb-32 container mx-auto px-6 text-center space-y-8">
+        <h1 className="text-4xl sm:text-6xl font-black tracking-tighter text-white">{t('project.notFound')}</h1>
+        <p className="text-gray-400">{t('project.notFoundText', { repo })}</p>
+        <Link href="/projects" className="inline-block px-8 py-4 bg-white text-black hover:bg-gray-200 rounded-2xl font-extrabold text-sm transition-all">
+          {t('project.seeAll')}
+        </Link>
+      </section>
+    );
+  }
+
+  return <ProjectDetail project={project} onBack={goBack} />;
+};
+
+const BlogPost = ({ slug }: { slug: string }) => {
+  const { projects } = useProjects();
+  return <BlogPostPage slug={slug} projects={projects} />;
+};
+
+export const App = () => {
+  const { t } = useI18n();
+  const location = useLocation();
+  const route = matchRoute(location.pathname);
+
+  // The hash joins in because hydration renders the location without it first
+  useLayoutEffect(() => {
+    restoreScroll(location);
+  }, [location.key, location.hash]);
+
+  // Section links and filters don't count as a new page; the dashboard doesn't count itself
+  useEffect(() => {
+    if (route.name !== 'stats') track({ type: 'page_view' });
+  }, [location.pathname]);
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-100 selection:bg-blue-500/30">
+      <a
+        href="#main"
+        className="sr-only focus:not-sr-only focus:fixed focus:top-4 focus:left-4 focus:z-[200] focus:px-5 focus:py-3 focus:rounded-xl focus:bg-blue-600 focus:text-on-accent focus:font-bold"
+      >
+        {t('nav.skip')}
+      </a>
+      <Navbar />
+      <main id="main" tabIndex={-1} className="outline-none">
+        <Suspense fallback={<PageFallback />}>
+          {route.name === 'home' && <Home />}
+          {route.name === 'projects' && <div className="pt-16"><Projects /></div>}
+          {route.name === 'project' && <ProjectPage repo={route.slug} />}
+          {route.name === 'blog' && <BlogIndex tag={new URLSearchParams(location.search).get('tag')} />}
+          {route.name === 'post' && <BlogPost slug={route.slug} />}
+          {route.name === 'contact' && <div className="pt-16"><Contact /></div>}
+          {route.name === 'stats' && <StatsDashboard />}
+          {route.name === 'not-found' && <NotFound pathname={location.pathname} />}
+        </Suspense>
+      </main>
       <Footer />
       <AIChat />
     </div>
   );
 };
 
+// Loads what a page needs for its first render: its code and its data. Awaited before
+// hydrating, so the first render matches the pre-rendered HTML, and by scripts/prerender.tsx.
+export const preloadRoute = async (route: Route) => {
+  switch (route.name) {
+    case 'project':
+      await Promise.all([import('./components/ProjectDetail'), loadReadmes()]);
+      break;
+    case 'blog':
+    case 'post':
+      await Promise.all([import('./components/Blog'), loadPosts()]);
+      break;
+    case 'stats':
+      await import('./components/StatsDashboard');
+      break;
+    case 'not-found':
+      await import('./components/NotFound');
+      break;
+  }
+};
+
 // Rendering the app
-try {
-  const rootElement = document.getElementById('root');
-  if (rootElement) {
-    createRoot(rootElement).render(<App />);
+const trimSlash = (pathname: string) => pathname.replace(/(.)\/+$/, '$1');
+
+if (typeof document !== 'undefined') {
+  try {
+    const rootElement = document.getElementById('root');
+    if (rootElement) {
+      startTheme();
+      startRouter();
+      startOutbox(CONTACT_PROVIDER);
+      startAnalytics(ANALYTICS_SINK);
+      // Pages written by the pre-renderer are hydrated; anything else (the dev server's
+      // empty shell, or a fallback page served for another path) is rendered from scratch
+      const prerendered = rootElement.dataset.prerendered;
+      const { pathname } = getLocation();
+      if (prerendered !== undefined && trimSlash(prerendered) === trimSlash(pathname)) {
+        preloadRoute(matchRoute(pathname))
+          .catch(error => console.error('Preloading failed:', error))
+          .then(() => hydrateRoot(rootElement, <App />));
+      } else {
+        createRoot(rootElement).render(<App />);
+      }
+    }
+  } catch (e) {
+    console.error("Rendering failed:", e);
   }
-} catch (e) {
-  console.error("Rendering failed:", e);
 }
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { useEffect, useRef, type RefObject } from 'react';
+
+// Keyboard and motion helpers: focus handling for the chat panel and the mobile menu,
+// and the visitor's reduced-motion setting for anything animated from script. CSS
+// animations are switched off in styles.css.
+
+// --- Motion ---
+const motionQuery = () =>
+  typeof window !== 'undefined' && window.matchMedia ? window.matchMedia('(prefers-reduced-motion: reduce)') : null;
+
+export const prefersReducedMotion = () => motionQuery()?.matches ?? false;
+
+// For scrollIntoView and scrollTo: jumps instead of gliding when motion is reduced
+export const scrollBehavior = (): ScrollBehavior => (prefersReducedMotion() ? 'auto' : 'smooth');
+
+// --- Keyboard ---
+const FOCUSABLE = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])'
+].join(', ');
+
+// Calls `onEscape` when Esc is pressed anywhere on the page while `active`
+export const useEscapeKey = (active: boolean, onEscape: () => void) => {
+  const callback = useRef(onEscape);
+  callback.current = onEscape;
+
+  useEffect(() => {
+    if (!active) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') callback.current();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [active]);
+};
+
+// While `active`, Tab and Shift+Tab cycle through the controls inside `ref`. Focus moves
+// to `initial` (else the first control) when the trap starts, and back to whatever had
+// it before, usually the button that opened it, when it ends.
+export const useFocusTrap = (
+  ref: RefObject<HTMLElement | null>,
+  active: boolean,
+  initial?: RefObject<HTMLElement | null>
+) => {
+  useEffect(() => {
+    const container = ref.current;
+    if (!active || !container) return;
+
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    const focusable = () => [...container.querySelectorAll<HTMLElement>(FOCUSABLE)];
+    (initial?.current ?? focusable()[0])?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Tab') return;
+      const elements = focusable();
+      if (elements.length === 0) return;
+      const first = elements[0];
+      const last = elements[elements.length - 1];
+      // Focus outside the trap (after a click on the page) comes back in at the edge
+      const outside = !container.contains(document.activeElement);
+      if (e.shiftKey && (outside || document.activeElement === first)) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && (outside || document.activeElement === last)) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      if (previous?.isConnected) previous.focus();
+    };
+  }, [active]);
+};
@@ -0,0 +1,48 @@
+import { ANALYTICS_ENDPOINT, MAX_EVENTS_PER_BATCH, type AnalyticsEvent, type AnalyticsSink } from '../analytics';
+
+export interface CollectorSinkConfig {
+  type: 'collector';
+  // Defaults to the site's own collector (server/analytics.ts)
+  endpoint?: string;
+  // How long events are gathered before they're sent together
+  flushDelayMs?: number;
+}
+
+// Posts events in batches to a self-hosted collector. Batches go out after a short
+// delay, and whatever is left when the page is hidden or closed is sent with
+// sendBeacon so it isn't lost.
+export const createCollectorSink = ({ endpoint = ANALYTICS_ENDPOINT, flushDelayMs = 5000 }: CollectorSinkConfig): AnalyticsSink => {
+  const queue: AnalyticsEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let listening = false;
+
+  const post = (events: AnalyticsEvent[]) => {
+    const body = JSON.stringify({ events });
+    if (navigator.sendBeacon?.(endpoint, new Blob([body], { type: 'application/json' }))) return;
+    // No beacon, or it was refused: a keepalive request also outlives the page
+    fetch(endpoint, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body, keepalive: true })
+      .catch(() => {
+        // Analytics are best effort; a lost batch isn't worth a retry
+      });
+  };
+
+  const flush = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    while (queue.length > 0) post(queue.splice(0, MAX_EVENTS_PER_BATCH));
+  };
+
+  return {
+    send(events) {
+      if (!listening) {
+        listening = true;
+        document.addEventListener('visibilitychange', () => {
+          if (document.visibilityState === 'hidden') flush();
+        });
+        window.addEventListener('pagehide', flush);
+      }
+      queue.push(...events);
+      if (!timer) timer = setTimeout(flush, flushDelayMs);
+    }
+  };
+};
@@ -0,0 +1,13 @@
+import type { AnalyticsSink } from '../analytics';
+
+export interface ConsoleSinkConfig {
+  type: 'console';
+}
+
+// Logs each event to the browser console. For checking what gets tracked during
+// development; nothing leaves the browser.
+export const createConsoleSink = (_config: ConsoleSinkConfig): AnalyticsSink => ({
+  send(events) {
+    for (const event of events) console.info(`[analytics] ${event.type}`, event);
+  }
+});
@@ -0,0 +1,40 @@
+import type { AnalyticsSink } from '../analytics';
+import { createCollectorSink, type CollectorSinkConfig } from './collector';
+import { createConsoleSink, type ConsoleSinkConfig } from './console';
+
+// Records nothing; the default, and the consent toggle is hidden
+export interface NoSinkConfig {
+  type: 'none';
+}
+
+export type AnalyticsSinkConfig = CollectorSinkConfig | ConsoleSinkConfig | NoSinkConfig;
+
+export type AnalyticsSinkType = AnalyticsSinkConfig['type'];
+
+// --- Config ---
+export const ANALYTICS_SINK_TYPES: AnalyticsSinkType[] = ['none', 'console', 'collector'];
+
+export const createAnalyticsSink = (config: AnalyticsSinkConfig): AnalyticsSink | null => {
+  switch (config.type) {
+    case 'collector':
+      return createCollectorSink(config);
+    case 'console':
+      return createConsoleSink(config);
+    case 'none':
+      return null;
+  }
+};
+
+// Reads the sink from environment variables, e.g.
+//   VITE_ANALYTICS_SINK=collector   VITE_ANALYTICS_ENDPOINT=https://stats.example.com/api/events
+//   VITE_ANALYTICS_SINK=console
+// Anything unknown records nothing.
+export const analyticsSinkFromEnv = (env: Record<string, string | undefined>): AnalyticsSinkConfig => {
+  const type = (env.VITE_ANALYTICS_SINK || 'none').trim() as AnalyticsSinkType;
+  if (!ANALYTICS_SINK_TYPES.includes(type)) {
+    console.warn(`Analytics are off: VITE_ANALYTICS_SINK must be one of ${ANALYTICS_SINK_TYPES.join(', ')} (got "${type}").`);
+    return { type: 'none' };
+  }
+  if (type === 'collector') return { type, endpoint: env.VITE_ANALYTICS_ENDPOINT?.trim() || undefined };
+  return { type };
+};
@@ -0,0 +1,245 @@
+import { useSyncExternalStore } from 'react';
+import { isInquiryType, type ContactErrorKind, type InquiryType } from './contact';
+
+// Cookie-less usage analytics: page views, project card clicks, chat use and contact
+// form results. Events carry no identifiers: no cookies, visitor IDs, IP addresses or
+// message text. Nothing is recorded under Do Not Track or Global Privacy Control, or
+// after the visitor switches it off. Where events go is up to the sink, see
+// ./analytics-sinks.
+
+// --- Types ---
+export type ProjectClickTarget = 'details' | 'github' | 'homepage';
+
+export type ContactOutcome = 'sent' | 'queued' | 'error';
+
+// Why a message didn't go out: the provider's error, the form's own send limit, or anything else
+export type ContactFailure = ContactErrorKind | 'session_limit' | 'unknown';
+
+export type TrackedEvent =
+  | { type: 'page_view' }
+  | { type: 'project_click'; repo: string; target: ProjectClickTarget }
+  | { type: 'chat_open' }
+  | { type: 'chat_message' }
+  | { type: 'contact_result'; outcome: ContactOutcome; inquiry: InquiryType; failure?: ContactFailure };
+
+// An event as recorded: what happened, on which page and when
+export type AnalyticsEvent = TrackedEvent & { path: string; at: number };
+
+export type AnalyticsEventType = AnalyticsEvent['type'];
+
+// Anything that can take events; see ./analytics-sinks for the adapters
+export interface AnalyticsSink {
+  send(events: AnalyticsEvent[]): void;
+}
+
+// 'off' is the visitor's choice, 'dnt' their browser's; 'disabled' means no sink is configured
+export type AnalyticsStatus = 'on' | 'off' | 'dnt' | 'disabled';
+
+export interface AnalyticsCount {
+  key: string;
+  count: number;
+}
+
+// What the dashboard shows; built on the server by summarizeEvents
+export interface AnalyticsSummary {
+  from: number;
+  to: number;
+  total: number;
+  counts: Record<AnalyticsEventType, number>;
+  // Page views per UTC day, oldest first
+  daily: AnalyticsCount[];
+  pages: AnalyticsCount[];
+  projects: AnalyticsCount[];
+  contact: Record<ContactOutcome, number>;
+  contactFailures: AnalyticsCount[];
+}
+
+// --- Config ---
+export const ANALYTICS_ENDPOINT = '/api/events';
+
+const STORAGE_KEY = 'christtech.analytics';
+
+export const EVENT_TYPES: AnalyticsEventType[] = ['page_view', 'project_click', 'chat_open', 'chat_message', 'contact_result'];
+
+const PROJECT_CLICK_TARGETS: ProjectClickTarget[] = ['details', 'github', 'homepage'];
+const CONTACT_OUTCOMES: ContactOutcome[] = ['sent', 'queued', 'error'];
+const CONTACT_FAILURES: ContactFailure[] = ['network', 'rejected', 'rate_limited', 'session_limit', 'unknown'];
+
+// Events in one request to the collector
+export const MAX_EVENTS_PER_BATCH = 50;
+
+const MAX_PATH_CHARS = 200;
+const MAX_REPO_CHARS = 100;
+
+// --- Validation ---
+const isOneOf = <T extends string>(values: T[], value: unknown): value is T => values.includes(value as T);
+
+const isOptionalOneOf = <T extends string>(values: T[], value: unknown): value is T | undefined =>
+  value === undefined || isOneOf(values, value);
+
+const isPath = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith('/') && value.length <= MAX_PATH_CHARS;
+
+// Checks an event sent by a browser and keeps only the known fields, so nothing else
+// ends up stored. Returns null for anything malformed.
+export const parseAnalyticsEvent = (value: unknown, at: number): AnalyticsEvent | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { type, path, repo, target, outcome, inquiry, failure } = value as Record<string, unknown>;
+  if (!isOneOf(EVENT_TYPES, type) || !isPath(path)) return null;
+
+  switch (type) {
+    case 'page_view':
+    case 'chat_open':
+    case 'chat_message':
+      return { type, path, at };
+    case 'project_click':
+      if (typeof repo !== 'string' || !repo || repo.length > MAX_REPO_CHARS) return null;
+      if (!isOneOf(PROJECT_CLICK_TARGETS, target)) return null;
+      return { type, repo, target, path, at };
+    case 'contact_result':
+      if (!isOneOf(CONTACT_OUTCOMES, outcome) || !isInquiryType(inquiry)) return null;
+      if (!isOptionalOneOf(CONTACT_FAILURES, failure)) return null;
+      return { type, outcome, inquiry, failure, path, at };
+  }
+};
+
+// --- Summary ---
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const top = (counts: Map<string, number>, limit: number): AnalyticsCount[] =>
+  [...counts].map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+    .slice(0, limit);
+
+const increment = (counts: Map<string, number>, key: string) => counts.set(key, (counts.get(key) || 0) + 1);
+
+// Totals for the last `days` days, up to `now`
+export const summarizeEvents = (events: AnalyticsEvent[], { now = Date.now(), days = 30 } = {}): AnalyticsSummary => {
+  const from = now - days * DAY_MS;
+  const counts = Object.fromEntries(EVENT_TYPES.map(type => [type, 0])) as Record<AnalyticsEventType, number>;
+  const contact: Record<ContactOutcome, number> = { sent: 0, queued: 0, error: 0 };
+  const daily = new Map<string, number>();
+  const pages = new Map<string, number>();
+  const projects = new Map<string, number>();
+  const failures = new Map<string, number>();
+
+  // Every day in the range, so days without visits show up as zero
+  for (let day = from; day <= now; day += DAY_MS) {
+    daily.set(new Date(day).toISOString().slice(0, 10), 0);
+  }
+
+  let total = 0;
+  for (const event of events) {
+    if (event.at < from || event.at > now) continue;
+    total++;
+    counts[event.type]++;
+    if (event.type === 'page_view') {
+      increment(daily, new Date(event.at).toISOString().slice(0, 10));
+      increment(pages, event.path);
+    } else if (event.type === 'project_click') {
+      increment(projects, event.repo);
+    } else if (event.type === 'contact_result') {
+      contact[event.outcome]++;
+      if (event.failure) increment(failures, event.failure);
+    }
+  }
+
+  return {
+    from,
+    to: now,
+    total,
+    counts,
+    daily: [...daily].map(([key, count]) => ({ key, count })),
+    pages: top(pages, 20),
+    projects: top(projects, 20),
+    contact,
+    contactFailures: top(failures, CONTACT_FAILURES.length)
+  };
+};
+
+// --- Dashboard ---
+export type AnalyticsErrorKind = 'unauthorized' | 'unavailable';
+
+export class AnalyticsError extends Error {
+  constructor(public kind: AnalyticsErrorKind, message: string) {
+    super(message);
+    this.name = 'AnalyticsError';
+  }
+}
+
+// Totals from the site's collector; `token` is the server's ANALYTICS_TOKEN, if it has one
+export const fetchAnalyticsSummary = async (days: number, token?: string, signal?: AbortSignal): Promise<AnalyticsSummary> => {
+  const response = await fetch(`${ANALYTICS_ENDPOINT}?days=${days}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    signal
+  });
+  if (response.status === 401) throw new AnalyticsError('unauthorized', 'The stats need a valid token.');
+  if (!response.ok) throw new AnalyticsError('unavailable', `Stats request failed with status ${response.status}.`);
+  return response.json();
+};
+
+// --- Consent ---
+// Do Not Track, or its successor Global Privacy Control
+const doNotTrack = () => {
+  if (typeof navigator === 'undefined') return false;
+  const browser = navigator as Navigator & { globalPrivacyControl?: boolean };
+  return browser.doNotTrack === '1' || browser.globalPrivacyControl === true;
+};
+
+// On unless the visitor has switched it off
+const readConsent = () => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) !== 'off';
+  } catch {
+    return true;
+  }
+};
+
+// --- Store ---
+let sink: AnalyticsSink | null = null;
+let consent: boolean | null = null;
+const listeners = new Set<() => void>();
+
+export const getAnalyticsStatus = (): AnalyticsStatus => {
+  if (!sink) return 'disabled';
+  if (doNotTrack()) return 'dnt';
+  if (consent === null) consent = readConsent();
+  return consent ? 'on' : 'off';
+};
+
+export const setAnalyticsConsent = (granted: boolean) => {
+  try {
+    if (granted) localStorage.removeItem(STORAGE_KEY);
+    else localStorage.setItem(STORAGE_KEY, 'off');
+  } catch {
+    // Storage unavailable: the choice lasts until the page is reloaded
+  }
+  consent = granted;
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeAnalytics = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Sends events to `sink` from now on. Safe to call more than once; the first sink stays.
+export const startAnalytics = (next: AnalyticsSink | null) => {
+  if (sink || !next || typeof window === 'undefined') return;
+  sink = next;
+  listeners.forEach(listener => listener());
+};
+
+// Records an event for the current page, if the visitor allows it
+export const track = (event: TrackedEvent) => {
+  if (!sink || getAnalyticsStatus() !== 'on') return;
+  sink.send([{ ...event, path: window.location.pathname, at: Date.now() }]);
+};
+
+// --- Hook ---
+export const useAnalytics = () => {
+  const status = useSyncExternalStore(subscribeAnalytics, getAnalyticsStatus, () => 'disabled' as AnalyticsStatus);
+  return { status, setConsent: setAnalyticsConsent };
+};
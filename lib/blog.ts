@@ -0,0 +1,91 @@
+import { projectHref } from './portfolio';
+import { DEFAULT_LOCALE, formatDate, type Locale } from './i18n';
+
+// Blog / devlog posts. Markdown files in content/blog are compiled into data/blog.json at
+// build time (scripts/build-blog.ts); the blog pages load that file on demand.
+
+// --- Types ---
+export interface PostFrontmatter {
+  title: string;
+  // ISO date, e.g. 2025-01-31
+  date: string;
+  tags: string[];
+  cover?: string;
+  draft?: boolean;
+  summary?: string;
+  // Repo names of the projects this post is about
+  projects?: string[];
+}
+
+// A published post as stored in data/blog.json
+export interface BlogPost {
+  slug: string;
+  title: string;
+  date: string;
+  tags: string[];
+  cover?: string;
+  summary: string;
+  projects: string[];
+  readingMinutes: number;
+  body: string;
+}
+
+// No build timestamp: the file is committed, and only changes when a post does
+export interface BlogIndex {
+  posts: BlogPost[];
+}
+
+// --- Config ---
+export const BLOG_PATH = '/blog';
+export const FEED_PATH = '/feed.xml';
+
+// Average adult silent reading speed
+const WORDS_PER_MINUTE = 220;
+
+// --- Helpers ---
+export const postHref = (slug: string) => `${BLOG_PATH}/${encodeURIComponent(slug)}`;
+
+export const readingMinutes = (markdown: string) => {
+  const words = markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/[#>*_`[\]()!-]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean).length;
+  return Math.max(1, Math.round(words / WORDS_PER_MINUTE));
+};
+
+// Links in posts can point at a project by repo name: [the arm](project:robot-arm)
+export const resolvePostUrl = (url: string) => {
+  const match = url.match(/^project:(.+)$/);
+  return match ? projectHref(match[1]) : url;
+};
+
+export const formatPostDate = (date: string, locale: Locale = DEFAULT_LOCALE) =>
+  formatDate(`${date}T00:00:00Z`, locale, { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+
+// Tags with their post counts, most used first
+export const postTags = (posts: BlogPost[]) => {
+  const counts = new Map<string, number>();
+  posts.forEach(post => post.tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag, count]) => ({ tag, count }));
+};
+
+export const filterPostsByTag = (posts: BlogPost[], tag: string | null) =>
+  tag ? posts.filter(post => post.tags.includes(tag)) : posts;
+
+// --- Data ---
+let postsPromise: Promise<BlogPost[]> | null = null;
+let loadedPosts: BlogPost[] | null = null;
+
+export const loadPosts = (): Promise<BlogPost[]> => {
+  if (!postsPromise) {
+    postsPromise = import('../data/blog.json').then(module => (loadedPosts = (module.default as BlogIndex).posts));
+  }
+  return postsPromise;
+};
+
+// The posts once loadPosts has resolved, so a page can show them on its first render
+// (and match the pre-rendered HTML when hydrating)
+export const getLoadedPosts = () => loadedPosts;
@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MAX_HISTORY_MESSAGES, buildChatHistory, createProxyChatClient, isMessage, type ChatRequest, type Message } from './chat';
+
+const conversation = (turns: number): Message[] =>
+  Array.from({ length: turns }, (_, i) => ({ role: i % 2 === 0 ? 'user' : 'ai', text: `message ${i}` }));
+
+const streamOf = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  });
+};
+
+const collect = async (stream: AsyncIterable<string>) => {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+};
+
+describe('createProxyChatClient', () => {
+  it('yields the reply chunk by chunk as the proxy streams it', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(streamOf(['Hel', 'lo', ' there']))));
+
+    const chunks = await collect(createProxyChatClient().streamReply([], 'Hi', new AbortController().signal));
+
+    expect(chunks).toEqual(['Hel', 'lo', ' there']);
+  });
+
+  it(`sends at most ${MAX_HISTORY_MESSAGES} earlier messages and leaves out failed replies`, async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response(streamOf(['ok'])));
+    vi.stubGlobal('fetch', fetchMock);
+    const history: Message[] = [...conversation(30), { role: 'ai', text: 'Try again.', error: 'network' }];
+
+    await collect(createProxyChatClient().streamReply(history, 'Next question', new AbortController().signal, { locale: 'yo' }));
+
+    const body: ChatRequest = JSON.parse(String(fetchMock.mock.calls[0][1].body));
+    expect(body.history).toHaveLength(MAX_HISTORY_MESSAGES);
+    expect(body.history[0].text).toBe('message 10');
+    expect(body.history.some(msg => msg.error)).toBe(false);
+    expect(body).toMatchObject({ message: 'Next question', locale: 'yo' });
+  });
+
+  it('passes the abort through instead of reporting a network error', async () => {
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    })));
+    const controller = new AbortController();
+
+    const reply = collect(createProxyChatClient().streamReply([], 'Hi', controller.signal));
+    controller.abort();
+
+    await expect(reply).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('maps error statuses to chat errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ error: 'Slow down' }, { status: 429, headers: { 'Retry-After': '12' } })));
+
+    await expect(collect(createProxyChatClient().streamReply([], 'Hi', new AbortController().signal)))
+      .rejects.toMatchObject({ name: 'ChatError', kind: 'rate_limited', retryAfter: 12, message: 'Slow down' });
+  });
+});
+
+describe('buildChatHistory', () => {
+  it('keeps the most recent messages, starting on a user turn and ending on a model turn', () => {
+    const history = buildChatHistory([{ role: 'ai', text: 'Welcome' }, ...conversation(30), { role: 'user', text: 'pending' }]);
+
+    expect(history.length).toBeLessThanOrEqual(MAX_HISTORY_MESSAGES);
+    expect(history[0]).toEqual({ role: 'user', parts: [{ text: 'message 12' }] });
+    expect(history[history.length - 1]).toEqual({ role: 'model', parts: [{ text: 'message 29' }] });
+  });
+
+  it('merges consecutive turns from the same side and skips failed replies', () => {
+    const history = buildChatHistory([
+      { role: 'user', text: 'First' },
+      { role: 'ai', text: 'Network error', error: 'network' },
+      { role: 'user', text: 'Second' },
+      { role: 'ai', text: 'Answer' }
+    ]);
+
+    expect(history).toEqual([
+      { role: 'user', parts: [{ text: 'First' }, { text: 'Second' }] },
+      { role: 'model', parts: [{ text: 'Answer' }] }
+    ]);
+  });
+});
+
+describe('isMessage', () => {
+  it('accepts user and ai messages with text', () => {
+    expect(isMessage({ role: 'user', text: 'Hi' })).toBe(true);
+    expect(isMessage({ role: 'ai', text: '', error: 'stopped' })).toBe(true);
+  });
+
+  it('rejects anything else', () => {
+    expect(isMessage(null)).toBe(false);
+    expect(isMessage('Hi')).toBe(false);
+    expect(isMessage({ role: 'system', text: 'Hi' })).toBe(false);
+    expect(isMessage({ role: 'user', text: 42 })).toBe(false);
+  });
+});
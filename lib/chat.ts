@@ -0,0 +1,134 @@
+import type { Content } from "@google/generative-ai";
+import type { Locale } from './i18n';
+
+// --- Types ---
+export type ChatErrorKind = 'missing_key' | 'rate_limited' | 'network' | 'model' | 'invalid_request';
+
+export interface Message {
+  role: 'user' | 'ai';
+  text: string;
+  // Set on replies that failed or were stopped before any text arrived; never replayed to the model.
+  error?: ChatErrorKind | 'stopped';
+}
+
+// Anything that can stream a reply for a conversation. In the browser this is the
+// /api/chat proxy client below; tests and demos can pass their own fake into AIChat.
+export interface ChatModelClient {
+  streamReply(history: Message[], userMsg: string, signal: AbortSignal, options?: ChatReplyOptions): AsyncIterable<string>;
+}
+
+export interface ChatReplyOptions {
+  // Language the site is shown in; the assistant answers in it
+  locale?: Locale;
+}
+
+// Body of a POST to the chat endpoint
+export interface ChatRequest {
+  history: Message[];
+  message: string;
+  locale?: Locale;
+}
+
+// --- Config ---
+export const CHAT_ENDPOINT = '/api/chat';
+
+// Only the most recent messages are replayed to the model, to keep requests small.
+export const MAX_HISTORY_MESSAGES = 20;
+
+// Longest single message the endpoint accepts
+export const MAX_MESSAGE_CHARS = 2000;
+
+export class ChatError extends Error {
+  constructor(public kind: ChatErrorKind, message: string, public retryAfter?: number) {
+    super(message);
+    this.name = 'ChatError';
+  }
+}
+
+// --- Helpers ---
+
+// Checks a message that came from outside the panel: a saved transcript or a request body
+export const isMessage = (value: unknown): value is Message => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { role, text } = value as Record<string, unknown>;
+  return (role === 'user' || role === 'ai') && typeof text === 'string';
+};
+
+// Turns the panel's messages into Gemini chat history. Gemini requires the history
+// to open with a user turn, so the greeting (and anything before the first question)
+// is dropped, failed or empty bubbles are skipped and consecutive turns from the same side are merged.
+export const buildChatHistory = (messages: Message[], limit = MAX_HISTORY_MESSAGES): Content[] => {
+  const recent = messages.filter(msg => !msg.error && msg.text.trim()).slice(-limit);
+  const firstUser = recent.findIndex(msg => msg.role === 'user');
+  if (firstUser === -1) return [];
+
+  const history: Content[] = [];
+  for (const msg of recent.slice(firstUser)) {
+    const role = msg.role === 'user' ? 'user' : 'model';
+    const last = history[history.length - 1];
+    if (last && last.role === role) {
+      last.parts.push({ text: msg.text });
+    } else {
+      history.push({ role, parts: [{ text: msg.text }] });
+    }
+  }
+
+  // The new question is sent separately, so the history has to end on a model turn.
+  if (history.length > 0 && history[history.length - 1].role === 'user') {
+    history.pop();
+  }
+  return history;
+};
+
+// Maps /api/chat status codes to the error states the panel knows how to explain
+const errorKindForStatus = (status: number): ChatErrorKind => {
+  if (status === 429) return 'rate_limited';
+  if (status === 503) return 'missing_key';
+  if (status >= 400 && status < 500) return 'invalid_request';
+  return 'model';
+};
+
+// Streams replies from the server-side proxy, which holds the Gemini key.
+export const createProxyChatClient = (endpoint = CHAT_ENDPOINT): ChatModelClient => ({
+  async *streamReply(history, userMsg, signal, options = {}) {
+    const body: ChatRequest = {
+      history: history.filter(msg => !msg.error).slice(-MAX_HISTORY_MESSAGES),
+      message: userMsg,
+      locale: options.locale
+    };
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal
+      });
+    } catch (error) {
+      if (signal.aborted) throw error;
+      throw new ChatError('network', 'Could not reach the chat endpoint.');
+    }
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => null);
+      const message = data?.error || `Chat request failed (${response.status})`;
+      throw new ChatError(errorKindForStatus(response.status), message, Number(response.headers.get('Retry-After')) || undefined);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    while (true) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch (error) {
+        if (signal.aborted) throw error;
+        // The proxy cuts the stream when the model fails mid-reply
+        throw new ChatError(navigator.onLine === false ? 'network' : 'model', 'The reply was interrupted.');
+      }
+      if (chunk.done) break;
+      const text = decoder.decode(chunk.value, { stream: true });
+      if (text) yield text;
+    }
+  }
+});
@@ -0,0 +1,87 @@
+import { EMPTY_CONTACT, isInquiryType, type ContactFields } from './contact';
+
+// Contact form drafts saved in localStorage while the visitor types, so a reload,
+// a closed tab or a dropped connection doesn't lose the message.
+
+// --- Types ---
+interface StoredDraft {
+  version: typeof DRAFT_VERSION;
+  savedAt: number;
+  // When the visitor started writing, carried over so the bot timing check still holds
+  startedAt: number;
+  fields: ContactFields;
+}
+
+export interface ContactDraft {
+  startedAt: number;
+  fields: ContactFields;
+}
+
+// --- Config ---
+const STORAGE_KEY = 'christtech.contact.draft';
+
+// Bump when ContactFields changes shape; older drafts are then discarded
+const DRAFT_VERSION = 1;
+
+// Drafts untouched for a month are dropped
+const DRAFT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// How long typing has to pause before the draft is written
+export const DRAFT_SAVE_DELAY_MS = 500;
+
+// --- Storage ---
+const isContactFields = (value: unknown): value is ContactFields => {
+  if (typeof value !== 'object' || value === null) return false;
+  const fields = value as Record<string, unknown>;
+  return isInquiryType(fields.inquiry) && Object.keys(EMPTY_CONTACT).every(field => typeof fields[field] === 'string');
+};
+
+const isEmpty = (fields: ContactFields) =>
+  (Object.keys(fields) as (keyof ContactFields)[]).every(field => field === 'inquiry' || fields[field].trim() === '');
+
+// Returns the saved draft, or null when there is none or it is stale, from an
+// older schema or unreadable (those are removed).
+export const loadDraft = (now = Date.now()): ContactDraft | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+
+    const data: StoredDraft = JSON.parse(raw);
+    const valid = data?.version === DRAFT_VERSION
+      && typeof data.savedAt === 'number'
+      && typeof data.startedAt === 'number'
+      && now - data.savedAt < DRAFT_TTL_MS
+      && isContactFields(data.fields);
+
+    if (!valid) {
+      localStorage.removeItem(STORAGE_KEY);
+      return null;
+    }
+    return { startedAt: data.startedAt, fields: data.fields };
+  } catch {
+    return null;
+  }
+};
+
+// Saves the form as it is; an empty form clears the draft instead
+export const saveDraft = ({ startedAt, fields }: ContactDraft, now = Date.now()) => {
+  if (isEmpty(fields)) {
+    clearDraft();
+    return;
+  }
+  const data: StoredDraft = { version: DRAFT_VERSION, savedAt: now, startedAt, fields };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (error) {
+    // Private mode or a full quota: the form still works, the draft just won't survive a reload
+    console.warn('Could not save contact draft:', error);
+  }
+};
+
+export const clearDraft = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing was saved either
+  }
+};
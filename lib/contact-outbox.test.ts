@@ -0,0 +1,137 @@
+// @vitest-environment jsdom
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ContactSubmission } from './contact';
+
+// The outbox keeps its queue, provider and database connection in module state, so
+// every test loads a fresh copy against an empty IndexedDB.
+const loadOutbox = async () => {
+  vi.resetModules();
+  const [outbox, { ContactError }] = await Promise.all([import('./contact-outbox'), import('./contact')]);
+  return { ...outbox, ContactError };
+};
+
+// A provider that answers each send with the next result: an error to throw, or
+// nothing for a delivered message
+const createFakeProvider = (...results: (Error | undefined)[]) => ({
+  submit: vi.fn(async (_submission: ContactSubmission) => {
+    const result = results.shift();
+    if (result) throw result;
+  })
+});
+
+const submission: ContactSubmission = {
+  fields: { inquiry: 'project', name: 'Ada', email: 'ada@example.com', message: 'Can you build a line follower?' },
+  subject: 'Project inquiry from Ada via CHRISTTech Portfolio',
+  fromName: 'CHRISTTech Portfolio'
+};
+
+const T = Date.UTC(2025, 2, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+const goOffline = () => vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+beforeEach(() => {
+  vi.stubGlobal('indexedDB', new IDBFactory());
+});
+
+describe('contact outbox', () => {
+  it('queues while offline and sends once the browser is back online', async () => {
+    const { startOutbox, queueSubmission, flushOutbox, getOutboxSize } = await loadOutbox();
+    const provider = createFakeProvider();
+    const offline = goOffline();
+    startOutbox(provider);
+
+    await queueSubmission(submission);
+    await flushOutbox(provider);
+
+    expect(getOutboxSize()).toBe(1);
+    expect(provider.submit).not.toHaveBeenCalled();
+
+    offline.mockReturnValue(true);
+    window.dispatchEvent(new Event('online'));
+
+    await vi.waitFor(() => expect(getOutboxSize()).toBe(0));
+    expect(provider.submit).toHaveBeenCalledExactlyOnceWith(submission);
+  });
+
+  it('backs off after a network error, doubling the delay each time', async () => {
+    const { ContactError, queueSubmission, flushOutbox, getOutboxSize, retryDelay } = await loadOutbox();
+    const provider = createFakeProvider(
+      new ContactError('network', 'Offline'),
+      new ContactError('network', 'Offline')
+    );
+    await queueSubmission(submission, 0, T);
+
+    await flushOutbox(provider, { now: T });
+    expect(provider.submit).toHaveBeenCalledTimes(1);
+
+    await flushOutbox(provider, { now: T + retryDelay(1) - 1 });
+    expect(provider.submit).toHaveBeenCalledTimes(1);
+
+    const secondTry = T + retryDelay(1);
+    await flushOutbox(provider, { now: secondTry });
+    expect(provider.submit).toHaveBeenCalledTimes(2);
+
+    await flushOutbox(provider, { now: secondTry + retryDelay(2) - 1 });
+    expect(provider.submit).toHaveBeenCalledTimes(2);
+
+    await flushOutbox(provider, { now: secondTry + retryDelay(2) });
+    expect(provider.submit).toHaveBeenCalledTimes(3);
+    expect(getOutboxSize()).toBe(0);
+  });
+
+  it('caps the backoff', async () => {
+    const { retryDelay } = await loadOutbox();
+
+    expect(retryDelay(1)).toBe(15_000);
+    expect(retryDelay(2)).toBe(30_000);
+    expect(retryDelay(20)).toBe(30 * 60_000);
+  });
+
+  it('waits as long as a rate-limited reply asks', async () => {
+    const { ContactError, queueSubmission, flushOutbox, getOutboxSize, retryDelay } = await loadOutbox();
+    const provider = createFakeProvider(new ContactError('rate_limited', 'Slow down', 600));
+    await queueSubmission(submission, 0, T);
+
+    await flushOutbox(provider, { now: T });
+    await flushOutbox(provider, { now: T + retryDelay(1) });
+    expect(provider.submit).toHaveBeenCalledTimes(1);
+
+    await flushOutbox(provider, { now: T + 600_000 });
+    expect(provider.submit).toHaveBeenCalledTimes(2);
+    expect(getOutboxSize()).toBe(0);
+  });
+
+  it('keeps a rejected message, without retrying it, until the visitor takes it back', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { ContactError, queueSubmission, flushOutbox, getOutboxSize, getOutboxRejected, takeRejected } = await loadOutbox();
+    const provider = createFakeProvider(new ContactError('rejected', 'Looks like spam'));
+    await queueSubmission(submission, 0, T);
+
+    await flushOutbox(provider, { now: T });
+    await flushOutbox(provider, { now: T + DAY, ignoreBackoff: true });
+
+    expect(provider.submit).toHaveBeenCalledTimes(1);
+    expect(getOutboxSize()).toBe(0);
+    expect(getOutboxRejected()).toBe(1);
+
+    expect(await takeRejected()).toMatchObject({ submission, queuedAt: T, rejected: 'Looks like spam' });
+    expect(getOutboxRejected()).toBe(0);
+    expect(await takeRejected()).toBeNull();
+  });
+
+  it('drops a message still unsent after a week', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { queueSubmission, flushOutbox, getOutboxSize, getOutboxRejected } = await loadOutbox();
+    const provider = createFakeProvider();
+    await queueSubmission(submission, 1, T);
+
+    await flushOutbox(provider, { now: T + 8 * DAY });
+
+    expect(provider.submit).not.toHaveBeenCalled();
+    expect(getOutboxSize()).toBe(0);
+    expect(getOutboxRejected()).toBe(0);
+    expect(warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,222 @@
+import { useSyncExternalStore } from 'react';
+import { ContactError, type ContactProvider, type ContactSubmission } from './contact';
+
+// Contact submissions that couldn't be sent, kept in IndexedDB and retried with
+// backoff while the browser is online. The queue survives reloads, so a message
+// written on a train goes out on the next visit if not before. Messages the
+// provider refuses stay in the outbox, unretried, until the visitor takes them back.
+
+// --- Types ---
+export interface OutboxEntry {
+  id: string;
+  submission: ContactSubmission;
+  queuedAt: number;
+  // Failed sends so far; sets the backoff
+  attempts: number;
+  nextAttemptAt: number;
+  // Set when the provider refused the message; it is not retried after that
+  rejected?: string;
+}
+
+// --- Config ---
+const DB_NAME = 'christtech';
+const DB_VERSION = 1;
+const STORE_NAME = 'contact-outbox';
+
+// The first retry waits this long, doubling with each failure up to RETRY_MAX_MS
+const RETRY_BASE_MS = 15_000;
+const RETRY_MAX_MS = 30 * 60_000;
+
+// Messages still unsent after a week are dropped rather than delivered out of the blue
+const OUTBOX_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const retryDelay = (attempts: number) =>
+  Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// --- IndexedDB ---
+let database: Promise<IDBDatabase> | null = null;
+
+const openOutbox = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call try again, e.g. after the visitor leaves private mode
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+const request = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openOutbox();
+  return new Promise((resolve, reject) => {
+    const pending = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    pending.onsuccess = () => resolve(pending.result);
+    pending.onerror = () => reject(pending.error);
+  });
+};
+
+const readEntries = () => request<OutboxEntry[]>('readonly', store => store.getAll());
+
+const putEntry = (entry: OutboxEntry) => request('readwrite', store => store.put(entry));
+
+const deleteEntry = (id: string) => request('readwrite', store => store.delete(id));
+
+// --- Store ---
+let size = 0;
+let rejectedCount = 0;
+const listeners = new Set<() => void>();
+
+const setCounts = (nextSize: number, nextRejected = rejectedCount) => {
+  if (nextSize === size && nextRejected === rejectedCount) return;
+  size = nextSize;
+  rejectedCount = nextRejected;
+  listeners.forEach(listener => listener());
+};
+
+const countEntries = (entries: OutboxEntry[]) => {
+  const rejected = entries.filter(entry => entry.rejected).length;
+  setCounts(entries.length - rejected, rejected);
+};
+
+// Messages waiting to be sent
+export const getOutboxSize = () => size;
+
+// Messages the provider refused, waiting for the visitor to edit and resend them
+export const getOutboxRejected = () => rejectedCount;
+
+export const subscribeOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// --- Queue ---
+let provider: ContactProvider | null = null;
+let timer: ReturnType<typeof setTimeout> | undefined;
+let flushing: Promise<void> | null = null;
+
+// Keeps a submission for later. `attempts` counts sends that already failed, so a
+// message that just hit a network error isn't retried straight away.
+export const queueSubmission = async (submission: ContactSubmission, attempts = 0, now = Date.now()) => {
+  await putEntry({
+    id: `${now}-${Math.random().toString(36).slice(2, 10)}`,
+    submission,
+    queuedAt: now,
+    attempts,
+    nextAttemptAt: attempts > 0 ? now + retryDelay(attempts) : now
+  });
+  setCounts(size + 1);
+  scheduleFlush(now);
+};
+
+// Removes the oldest refused message from the outbox and returns it, so the form
+// can be filled with it again. Null when there is none.
+export const takeRejected = async (): Promise<OutboxEntry | null> => {
+  const entries = await readEntries();
+  const [oldest] = entries.filter(entry => entry.rejected).sort((a, b) => a.queuedAt - b.queuedAt);
+  if (oldest) await deleteEntry(oldest.id);
+  countEntries(entries.filter(entry => entry !== oldest));
+  return oldest ?? null;
+};
+
+// Sends one entry if it's due. Returns false when the network is still down, so
+// the rest of the queue waits for the next round.
+const attempt = async (sender: ContactProvider, entry: OutboxEntry, now: number, ignoreBackoff: boolean): Promise<boolean> => {
+  if (now - entry.queuedAt > OUTBOX_TTL_MS) {
+    console.warn('Dropped a contact message that could not be sent for a week:', entry.submission);
+    await deleteEntry(entry.id);
+    return true;
+  }
+  if (entry.nextAttemptAt > now && !ignoreBackoff) return true;
+
+  try {
+    await sender.submit(entry.submission);
+    await deleteEntry(entry.id);
+    return true;
+  } catch (error) {
+    if (error instanceof ContactError && error.kind === 'rejected') {
+      // The provider refused this message and would refuse it again, so it waits for the visitor instead
+      console.error('The provider rejected a queued contact message:', error);
+      await putEntry({ ...entry, rejected: error.message });
+      return true;
+    }
+    const attempts = entry.attempts + 1;
+    const retryAfter = error instanceof ContactError && error.retryAfter ? error.retryAfter * 1000 : 0;
+    await putEntry({ ...entry, attempts, nextAttemptAt: now + Math.max(retryDelay(attempts), retryAfter) });
+    return !(error instanceof ContactError && error.kind === 'network');
+  }
+};
+
+// Tries every due entry once, oldest first; `ignoreBackoff` tries them all, for when
+// the connection has just come back. Concurrent calls share one run.
+export const flushOutbox = (sender: ContactProvider, { now = Date.now(), ignoreBackoff = false } = {}): Promise<void> => {
+  if (!flushing) {
+    flushing = (async () => {
+      try {
+        const entries = (await readEntries()).filter(entry => !entry.rejected).sort((a, b) => a.queuedAt - b.queuedAt);
+        for (const entry of entries) {
+          if (isOffline() || !(await attempt(sender, entry, now, ignoreBackoff))) break;
+        }
+        countEntries(await readEntries());
+      } catch (error) {
+        console.warn('Could not read the contact outbox:', error);
+      } finally {
+        flushing = null;
+      }
+    })();
+  }
+  return flushing;
+};
+
+// Sets a timer for the next due entry. Nothing is scheduled while offline; the
+// `online` listener from startOutbox picks it up from there.
+const scheduleFlush = async (now = Date.now()) => {
+  clearTimeout(timer);
+  if (!provider || isOffline()) return;
+
+  const entries = await readEntries().catch(() => [] as OutboxEntry[]);
+  countEntries(entries);
+  const waiting = entries.filter(entry => !entry.rejected);
+  if (waiting.length === 0) return;
+
+  const due = Math.min(...waiting.map(entry => entry.nextAttemptAt));
+  timer = setTimeout(async () => {
+    if (!provider) return;
+    await flushOutbox(provider);
+    scheduleFlush();
+  }, Math.max(0, due - now));
+};
+
+// Starts retrying queued messages through `sender`: now, whenever the browser comes
+// back online, and on the backoff timer. Safe to call more than once.
+export const startOutbox = (sender: ContactProvider) => {
+  if (provider || typeof window === 'undefined') return;
+  provider = sender;
+
+  window.addEventListener('online', async () => {
+    await flushOutbox(sender, { ignoreBackoff: true });
+    scheduleFlush();
+  });
+  window.addEventListener('offline', () => clearTimeout(timer));
+  scheduleFlush();
+};
+
+// --- Hook ---
+export const useOutboxSize = () => useSyncExternalStore(subscribeOutbox, getOutboxSize, () => 0);
+
+export const useOutboxRejected = () => useSyncExternalStore(subscribeOutbox, getOutboxRejected, () => 0);
@@ -0,0 +1,63 @@
+import type { ContactProvider } from '../contact';
+import { createMockProvider, type MockProviderConfig } from './mock';
+import { createWebhookProvider, type WebhookProviderConfig } from './webhook';
+import { createWeb3FormsProvider, type Web3FormsProviderConfig } from './web3forms';
+
+export type ContactProviderConfig = Web3FormsProviderConfig | WebhookProviderConfig | MockProviderConfig;
+
+export type ContactProviderType = ContactProviderConfig['type'];
+
+// --- Config ---
+export const CONTACT_PROVIDER_TYPES: ContactProviderType[] = ['web3forms', 'webhook', 'mock'];
+
+export const DEFAULT_CONTACT_PROVIDER: ContactProviderType = 'web3forms';
+
+export const createContactProvider = (config: ContactProviderConfig): ContactProvider => {
+  switch (config.type) {
+    case 'web3forms':
+      return createWeb3FormsProvider(config);
+    case 'webhook':
+      return createWebhookProvider(config);
+    case 'mock':
+      return createMockProvider(config);
+  }
+};
+
+// The old placeholder from .env.local.example, which used to be sent as the real key
+const PLACEHOLDER_KEYS = ['', 'your_web3forms_access_key_here', 'YOUR_ACCESS_KEY_HERE'];
+
+const providerType = (env: Record<string, string | undefined>) =>
+  (env.VITE_CONTACT_PROVIDER || DEFAULT_CONTACT_PROVIDER).trim() as ContactProviderType;
+
+// What is wrong with the contact settings, e.g. a missing key. `vite build` stops on
+// these (see contactConfigPlugin); the dev server only warns.
+export const contactConfigProblems = (env: Record<string, string | undefined>): string[] => {
+  const type = providerType(env);
+  if (!CONTACT_PROVIDER_TYPES.includes(type)) {
+    return [`VITE_CONTACT_PROVIDER must be one of ${CONTACT_PROVIDER_TYPES.join(', ')} (got "${type}").`];
+  }
+  if (type === 'web3forms' && PLACEHOLDER_KEYS.includes((env.VITE_WEB3FORMS_KEY || '').trim())) {
+    return ['VITE_WEB3FORMS_KEY is not set. Get an access key at https://web3forms.com, or set VITE_CONTACT_PROVIDER=webhook or mock.'];
+  }
+  if (type === 'webhook' && !/^https?:\/\/\S+$/.test(env.VITE_CONTACT_WEBHOOK_URL || '')) {
+    return ['VITE_CONTACT_WEBHOOK_URL must be an http(s) URL when VITE_CONTACT_PROVIDER=webhook.'];
+  }
+  return [];
+};
+
+// Reads the provider from environment variables, e.g.
+//   VITE_CONTACT_PROVIDER=web3forms  VITE_WEB3FORMS_KEY=...
+//   VITE_CONTACT_PROVIDER=webhook    VITE_CONTACT_WEBHOOK_URL=https://...
+// A misconfigured provider falls back to the mock one, so the form still works locally.
+export const contactProviderFromEnv = (env: Record<string, string | undefined>): ContactProviderConfig => {
+  const problems = contactConfigProblems(env);
+  if (problems.length > 0) {
+    console.warn(`Contact form is using the mock provider: ${problems.join(' ')}`);
+    return { type: 'mock' };
+  }
+
+  const type = providerType(env);
+  if (type === 'web3forms') return { type, accessKey: env.VITE_WEB3FORMS_KEY!.trim() };
+  if (type === 'webhook') return { type, url: env.VITE_CONTACT_WEBHOOK_URL! };
+  return { type: 'mock' };
+};
@@ -0,0 +1,20 @@
+import { ContactError, type ContactErrorKind, type ContactProvider } from '../contact';
+
+export interface MockProviderConfig {
+  type: 'mock';
+  // Pause before answering, so the sending state is visible; 0 for tests
+  delayMs?: number;
+  // Fail every submission this way, to try the form's error states
+  failWith?: ContactErrorKind;
+}
+
+// Sends nothing: logs the submission to the console instead. Used in development
+// when no real provider is configured, and for demos.
+export const createMockProvider = ({ delayMs = 600, failWith }: MockProviderConfig): ContactProvider => ({
+  async submit(submission, signal) {
+    if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    if (failWith) throw new ContactError(failWith, `Mock contact provider failed with "${failWith}".`);
+    console.info('[contact:mock] Message not sent anywhere:', submission);
+  }
+});
@@ -0,0 +1,32 @@
+import { ContactError, type ContactProvider } from '../contact';
+
+export interface Web3FormsProviderConfig {
+  type: 'web3forms';
+  // Public access key from https://web3forms.com; it only allows sending to the owner's inbox
+  accessKey: string;
+}
+
+const ENDPOINT = 'https://api.web3forms.com/submit';
+
+export const createWeb3FormsProvider = ({ accessKey }: Web3FormsProviderConfig): ContactProvider => ({
+  async submit({ fields, subject, fromName }, signal) {
+    let response: Response;
+    try {
+      response = await fetch(ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+        body: JSON.stringify({ access_key: accessKey, subject, from_name: fromName, ...fields }),
+        signal
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new ContactError('network', 'Could not reach Web3Forms.');
+    }
+
+    const data = await response.json().catch(() => null);
+    if (response.status === 429) throw new ContactError('rate_limited', data?.message || 'Web3Forms rate limit reached.');
+    if (!response.ok || !data?.success) {
+      throw new ContactError('rejected', data?.message || `Web3Forms request failed (${response.status})`);
+    }
+  }
+});
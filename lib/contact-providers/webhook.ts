@@ -0,0 +1,31 @@
+import { ContactError, type ContactProvider } from '../contact';
+
+export interface WebhookProviderConfig {
+  type: 'webhook';
+  // Receives a JSON POST; any 2xx response counts as delivered
+  url: string;
+}
+
+// For Zapier/Make/n8n hooks, a Slack or Discord relay, or your own endpoint. The body is
+// { subject, fromName, inquiry, name, email, ...details, message, submittedAt }.
+export const createWebhookProvider = ({ url }: WebhookProviderConfig): ContactProvider => ({
+  async submit({ fields, subject, fromName }, signal) {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ subject, fromName, ...fields, submittedAt: new Date().toISOString() }),
+        signal
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new ContactError('network', 'Could not reach the contact webhook.');
+    }
+
+    if (response.status === 429) {
+      throw new ContactError('rate_limited', 'The contact webhook is rate limited.', Number(response.headers.get('Retry-After')) || undefined);
+    }
+    if (!response.ok) throw new ContactError('rejected', `Contact webhook failed (${response.status})`);
+  }
+});
@@ -0,0 +1,264 @@
+import type { MessageKey } from './i18n';
+
+// Contact form logic shared by the form and the submission providers in
+// ./contact-providers: inquiry types, field validation, the bot checks and the
+// per-session send limit.
+
+// --- Types ---
+export type InquiryType = 'project' | 'tutoring' | 'collaboration' | 'general';
+
+// Extra fields asked only for some inquiry types; see INQUIRY_DETAILS
+export type InquiryDetail = 'budget' | 'timeline' | 'studentAge' | 'experience' | 'links';
+
+// Every field the form can show. Details that don't apply to `inquiry` stay empty.
+export interface ContactFields extends Record<InquiryDetail, string> {
+  inquiry: InquiryType;
+  name: string;
+  email: string;
+  message: string;
+}
+
+export type ContactField = Exclude<keyof ContactFields, 'inquiry'>;
+
+// Details picked from a list rather than typed
+export type ChoiceDetail = 'budget' | 'timeline' | 'experience';
+
+export interface Choice {
+  value: string;
+  key: MessageKey;
+}
+
+// A problem to show under a field, as a catalog key and its placeholders
+export interface FieldError {
+  key: MessageKey;
+  params?: Record<string, number>;
+}
+
+export type FieldErrors = Partial<Record<ContactField, FieldError>>;
+
+export interface ContactSubmission {
+  // Only the fields that apply to the inquiry type; see contactPayload
+  fields: Record<string, string>;
+  subject: string;
+  fromName: string;
+}
+
+// Anything that can deliver a submission; see ./contact-providers for the adapters
+export interface ContactProvider {
+  submit(submission: ContactSubmission, signal?: AbortSignal): Promise<void>;
+}
+
+export type ContactErrorKind = 'network' | 'rejected' | 'rate_limited';
+
+export class ContactError extends Error {
+  constructor(public kind: ContactErrorKind, message: string, public retryAfter?: number) {
+    super(message);
+    this.name = 'ContactError';
+  }
+}
+
+// --- Config ---
+export const CONTACT_LIMITS = {
+  nameMax: 100,
+  messageMin: 10,
+  messageMax: 5000
+};
+
+// Hidden input that people never see and form-filling bots do
+export const HONEYPOT_FIELD = 'website';
+
+// Nobody reads the page and writes a message in less than this
+export const MIN_FILL_MS = 3000;
+
+// Sends allowed per browser session within the window
+export const SESSION_LIMIT = { max: 3, windowMs: 10 * 60_000 };
+
+export const INQUIRY_TYPES: InquiryType[] = ['project', 'tutoring', 'collaboration', 'general'];
+
+export const INQUIRY_LABELS: Record<InquiryType, MessageKey> = {
+  project: 'contact.inquiryProject',
+  tutoring: 'contact.inquiryTutoring',
+  collaboration: 'contact.inquiryCollaboration',
+  general: 'contact.inquiryGeneral'
+};
+
+export const INQUIRY_DETAILS: Record<InquiryType, InquiryDetail[]> = {
+  project: ['budget', 'timeline'],
+  tutoring: ['studentAge', 'experience'],
+  collaboration: ['links'],
+  general: []
+};
+
+export const DETAIL_LABELS: Record<InquiryDetail, MessageKey> = {
+  budget: 'contact.budget',
+  timeline: 'contact.timeline',
+  studentAge: 'contact.studentAge',
+  experience: 'contact.experience',
+  links: 'contact.links'
+};
+
+export const DETAIL_CHOICES: Record<ChoiceDetail, Choice[]> = {
+  budget: [
+    { value: 'under-500', key: 'contact.budgetUnder500' },
+    { value: '500-2000', key: 'contact.budget500to2000' },
+    { value: '2000-10000', key: 'contact.budget2000to10000' },
+    { value: 'over-10000', key: 'contact.budgetOver10000' },
+    { value: 'unsure', key: 'contact.budgetUnsure' }
+  ],
+  timeline: [
+    { value: 'asap', key: 'contact.timelineAsap' },
+    { value: '1-3-months', key: 'contact.timeline1to3' },
+    { value: '3-6-months', key: 'contact.timeline3to6' },
+    { value: 'flexible', key: 'contact.timelineFlexible' }
+  ],
+  experience: [
+    { value: 'none', key: 'contact.experienceNone' },
+    { value: 'beginner', key: 'contact.experienceBeginner' },
+    { value: 'intermediate', key: 'contact.experienceIntermediate' },
+    { value: 'advanced', key: 'contact.experienceAdvanced' }
+  ]
+};
+
+export const STUDENT_AGE = { min: 5, max: 99 };
+
+export const LINKS_MAX = 5;
+
+// Email subjects stay in English whatever the visitor's language; they're read by the owner
+const INQUIRY_SUBJECTS: Record<InquiryType, string> = {
+  project: 'Project inquiry',
+  tutoring: 'Tutoring request',
+  collaboration: 'Collaboration proposal',
+  general: 'New message'
+};
+
+export const EMPTY_CONTACT: ContactFields = {
+  inquiry: 'project',
+  name: '',
+  email: '',
+  message: '',
+  budget: '',
+  timeline: '',
+  studentAge: '',
+  experience: '',
+  links: ''
+};
+
+export const isInquiryType = (value: unknown): value is InquiryType => INQUIRY_TYPES.includes(value as InquiryType);
+
+export const isChoiceDetail = (field: ContactField): field is ChoiceDetail => field in DETAIL_CHOICES;
+
+// The catalog key for a picked choice, or undefined for free-text fields
+export const choiceLabel = (field: ContactField, value: string): MessageKey | undefined =>
+  isChoiceDetail(field) ? DETAIL_CHOICES[field].find(choice => choice.value === value)?.key : undefined;
+
+// The fields the form shows for the current inquiry type, in order
+export const activeFields = (inquiry: InquiryType): ContactField[] => ['name', 'email', ...INQUIRY_DETAILS[inquiry], 'message'];
+
+// --- Validation ---
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const splitLinks = (text: string) => text.split(/\s+/).filter(Boolean);
+
+const isWebLink = (text: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(text).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const validateField = (field: ContactField, value: string): FieldError | undefined => {
+  const text = value.trim();
+  if (isChoiceDetail(field)) return choiceLabel(field, text) ? undefined : { key: 'contact.errorChoose' };
+  switch (field) {
+    case 'name':
+      if (!text) return { key: 'contact.errorNameRequired' };
+      if (text.length > CONTACT_LIMITS.nameMax) return { key: 'contact.errorNameLong', params: { max: CONTACT_LIMITS.nameMax } };
+      return undefined;
+    case 'email':
+      return EMAIL_PATTERN.test(text) ? undefined : { key: 'contact.errorEmail' };
+    case 'message':
+      if (text.length < CONTACT_LIMITS.messageMin) return { key: 'contact.errorMessageShort', params: { min: CONTACT_LIMITS.messageMin } };
+      if (text.length > CONTACT_LIMITS.messageMax) return { key: 'contact.errorMessageLong', params: { max: CONTACT_LIMITS.messageMax } };
+      return undefined;
+    case 'studentAge': {
+      const age = Number(text);
+      return text && Number.isInteger(age) && age >= STUDENT_AGE.min && age <= STUDENT_AGE.max
+        ? undefined
+        : { key: 'contact.errorStudentAge', params: STUDENT_AGE };
+    }
+    case 'links': {
+      const links = splitLinks(text);
+      return links.length > 0 && links.length <= LINKS_MAX && links.every(isWebLink)
+        ? undefined
+        : { key: 'contact.errorLinks', params: { max: LINKS_MAX } };
+    }
+  }
+};
+
+// Every shown field's problem, or an empty object when the form can be sent
+export const validateContact = (fields: ContactFields): FieldErrors => {
+  const errors: FieldErrors = {};
+  activeFields(fields.inquiry).forEach(field => {
+    const error = validateField(field, fields[field]);
+    if (error) errors[field] = error;
+  });
+  return errors;
+};
+
+// What the providers deliver: the inquiry type and the trimmed fields shown for it.
+// Links are put one per line.
+export const contactPayload = (fields: ContactFields): Record<string, string> => {
+  const payload: Record<string, string> = { inquiry: fields.inquiry };
+  activeFields(fields.inquiry).forEach(field => {
+    payload[field] = field === 'links' ? splitLinks(fields.links).join('\n') : fields[field].trim();
+  });
+  return payload;
+};
+
+// The form fields a payload was made from, for editing a message that wasn't delivered
+export const fieldsFromPayload = (payload: Record<string, string>): ContactFields => {
+  const inquiry = isInquiryType(payload.inquiry) ? payload.inquiry : EMPTY_CONTACT.inquiry;
+  const fields: ContactFields = { ...EMPTY_CONTACT, inquiry };
+  activeFields(inquiry).forEach(field => {
+    fields[field] = payload[field] ?? '';
+  });
+  return fields;
+};
+
+export const inquirySubject = (fields: ContactFields, siteName: string) =>
+  `${INQUIRY_SUBJECTS[fields.inquiry]} from ${fields.name.trim()} via ${siteName} Portfolio`;
+
+// --- Spam checks ---
+
+// A filled honeypot or a form sent within MIN_FILL_MS of opening it. Callers should
+// act as if the message was sent, so bots get nothing to learn from.
+export const looksLikeBot = ({ honeypot, startedAt }: { honeypot: string; startedAt: number }, now = Date.now()) =>
+  honeypot.trim() !== '' || now - startedAt < MIN_FILL_MS;
+
+// --- Session rate limit ---
+const STORAGE_KEY = 'christtech.contact.sent';
+
+const readSends = (now: number): number[] => {
+  try {
+    const sends: unknown = JSON.parse(sessionStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(sends) ? sends.filter((at): at is number => typeof at === 'number' && now - at < SESSION_LIMIT.windowMs) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Seconds until another message may be sent in this session, or 0
+export const contactRetryAfter = (now = Date.now()): number => {
+  const sends = readSends(now);
+  if (sends.length < SESSION_LIMIT.max) return 0;
+  return Math.ceil((Math.min(...sends) + SESSION_LIMIT.windowMs - now) / 1000);
+};
+
+export const recordContactSend = (now = Date.now()) => {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify([...readSends(now), now]));
+  } catch {
+    // Storage unavailable: the limit can't be kept, the provider's own limits still apply
+  }
+};
@@ -0,0 +1,167 @@
+import snapshot from '../data/github-snapshot.json';
+import { SITE } from './site';
+
+// GitHub repo list. The site ships a snapshot made at build time (scripts/snapshot-github.ts,
+// which is the only place a token is used). Browsers then refresh the list without a token,
+// sharing the unauthenticated 60 requests/hour limit per IP, so cached data is shown first
+// and refreshed with conditional requests, which cost nothing when the list hasn't changed.
+
+// --- Types ---
+export interface GitHubRepo {
+  name: string;
+  description: string;
+  html_url: string;
+  homepage: string;
+  topics: string[];
+  stargazers_count: number;
+  // Null for repos GitHub detects no language in
+  language: string | null;
+  updated_at: string;
+}
+
+export interface RateLimit {
+  limit: number;
+  remaining: number;
+  // Epoch milliseconds when the quota refills
+  resetAt: number;
+}
+
+// A repo as captured by the build-time snapshot
+export interface SnapshotRepo extends GitHubRepo {
+  // Bytes of code per language, from /repos/{owner}/{repo}/languages
+  languages: Record<string, number>;
+  hasReadme: boolean;
+}
+
+export interface GitHubSnapshot {
+  generatedAt: string | null;
+  user: string;
+  repos: SnapshotRepo[];
+}
+
+// README markdown keyed by repo name. Kept out of the snapshot so the main bundle
+// doesn't carry every README; the project detail view loads it on demand.
+export type GitHubReadmes = Record<string, string>;
+
+interface CachedRepos {
+  version: typeof CACHE_VERSION;
+  repos: GitHubRepo[];
+  etag?: string;
+  fetchedAt: number;
+}
+
+export type FetchReposResult =
+  | { status: 'modified'; repos: GitHubRepo[]; etag?: string; rateLimit?: RateLimit }
+  | { status: 'not-modified'; rateLimit?: RateLimit };
+
+export class GitHubError extends Error {
+  constructor(message: string, public rateLimit?: RateLimit) {
+    super(message);
+    this.name = 'GitHubError';
+  }
+}
+
+// --- Config ---
+export const GITHUB_USER = SITE.githubUser;
+
+export const REPOS_URL = `https://api.github.com/users/${GITHUB_USER}/repos?sort=updated&per_page=100`;
+
+const CACHE_KEY = 'christtech.github.repos';
+const CACHE_VERSION = 1;
+
+// Cached data younger than this is used without asking GitHub at all
+export const CACHE_TTL_MS = 30 * 60 * 1000;
+
+// Repo list captured when the site was built, shown until a fresher list is available
+export const GITHUB_SNAPSHOT = snapshot as GitHubSnapshot;
+
+export const snapshotRepo = (name: string): SnapshotRepo | undefined =>
+  GITHUB_SNAPSHOT.repos.find(repo => repo.name === name);
+
+let loadedReadmes: GitHubReadmes | null = null;
+
+export const loadReadmes = async (): Promise<GitHubReadmes> => {
+  loadedReadmes = (await import('../data/github-readmes.json')).default as GitHubReadmes;
+  return loadedReadmes;
+};
+
+// A snapshot README once loadReadmes has run, so a page can show it on its first render
+// (and match the pre-rendered HTML when hydrating)
+export const loadedReadme = (repo: string): string | undefined => loadedReadmes?.[repo];
+
+// --- Cache ---
+const hasStorage = () => typeof localStorage !== 'undefined';
+
+export const readCachedRepos = (): CachedRepos | null => {
+  if (!hasStorage()) return null;
+  try {
+    const data: CachedRepos = JSON.parse(localStorage.getItem(CACHE_KEY) || 'null');
+    if (data?.version !== CACHE_VERSION || !Array.isArray(data.repos)) return null;
+    return data;
+  } catch {
+    return null;
+  }
+};
+
+export const writeCachedRepos = (repos: GitHubRepo[], etag: string | undefined, fetchedAt = Date.now()) => {
+  if (!hasStorage()) return;
+  const data: CachedRepos = { version: CACHE_VERSION, repos, etag, fetchedAt };
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(data));
+  } catch (error) {
+    console.warn('Could not cache GitHub repos:', error);
+  }
+};
+
+// --- Network ---
+const readRateLimit = (headers: Headers): RateLimit | undefined => {
+  const limit = headers.get('x-ratelimit-limit');
+  const remaining = headers.get('x-ratelimit-remaining');
+  const reset = headers.get('x-ratelimit-reset');
+  if (limit === null || remaining === null || reset === null) return undefined;
+  return { limit: Number(limit), remaining: Number(remaining), resetAt: Number(reset) * 1000 };
+};
+
+// Fetches the repo list, sending `If-None-Match` when we already hold a copy
+export const fetchRepos = async (etag?: string): Promise<FetchReposResult> => {
+  const response = await fetch(REPOS_URL, {
+    headers: {
+      Accept: 'application/vnd.github+json',
+      ...(etag ? { 'If-None-Match': etag } : {})
+    },
+    // Revalidation is handled here, not by the browser's HTTP cache
+    cache: 'no-store'
+  });
+  const rateLimit = readRateLimit(response.headers);
+
+  if (response.status === 304) return { status: 'not-modified', rateLimit };
+  if (!response.ok) {
+    const limited = rateLimit?.remaining === 0;
+    throw new GitHubError(limited ? 'GitHub rate limit reached' : `GitHub responded ${response.status}`, rateLimit);
+  }
+
+  const repos: GitHubRepo[] = await response.json();
+  return { status: 'modified', repos, etag: response.headers.get('etag') || undefined, rateLimit };
+};
+
+// README markdown for one repo: from the snapshot when it has it, else from the API
+export const fetchReadme = async (repo: string): Promise<string | null> => {
+  const readmes = await loadReadmes();
+  if (readmes[repo]) return readmes[repo];
+
+  const response = await fetch(`https://api.github.com/repos/${GITHUB_USER}/${repo}/readme`, {
+    headers: { Accept: 'application/vnd.github.raw+json' }
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) throw new GitHubError(`GitHub responded ${response.status}`, readRateLimit(response.headers));
+  return response.text();
+};
+
+// Relative links in a README point into the repo: images at the raw file, links at the blob view
+export const resolveRepoUrl = (repo: string, url: string, key: string): string => {
+  if (/^([a-z][a-z\d+.-]*:|#|\/\/)/i.test(url)) return url;
+  const path = url.replace(/^\.?\//, '');
+  return key === 'src'
+    ? `https://raw.githubusercontent.com/${GITHUB_USER}/${repo}/HEAD/${path}`
+    : `https://github.com/${GITHUB_USER}/${repo}/blob/HEAD/${path}`;
+};
@@ -0,0 +1,133 @@
+import { useSyncExternalStore } from 'react';
+import en, { type MessageKey } from './locales/en';
+import pcm from './locales/pcm';
+import yo from './locales/yo';
+
+// Interface copy in the visitor's language. Strings live in per-locale catalogs under
+// ./locales (English is the source); the choice is detected from the browser on the first
+// visit and remembered once the visitor picks a language in the navbar.
+// Profile content from data/site.config.ts is not translated.
+
+// --- Types ---
+export type { MessageKey };
+
+export type Messages = Record<MessageKey, string>;
+
+export type Locale = 'en' | 'pcm' | 'yo';
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+interface LocaleInfo {
+  // Shown in the switcher, in the language itself
+  label: string;
+  // How the assistant's instructions refer to the language
+  englishName: string;
+  // BCP 47 tag for Intl formatting and <html lang>
+  tag: string;
+  messages: Messages;
+}
+
+// --- Catalogs ---
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: { label: 'English', englishName: 'English', tag: 'en', messages: en },
+  pcm: { label: 'Naijá', englishName: 'Nigerian Pidgin', tag: 'pcm-NG', messages: pcm },
+  yo: { label: 'Yorùbá', englishName: 'Yoruba', tag: 'yo-NG', messages: yo }
+};
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, value);
+
+// First supported language in the browser's preference list, matched on the primary
+// subtag so `yo-NG` and `yo` both pick Yorùbá
+export const detectLocale = (languages: readonly string[]): Locale => {
+  for (const language of languages) {
+    const primary = language.toLowerCase().split('-')[0];
+    if (isLocale(primary)) return primary;
+  }
+  return DEFAULT_LOCALE;
+};
+
+// Missing keys fall back to English; `{param}` placeholders without a value are left as is
+export const createTranslator = (locale: Locale): Translate => (key, params) => {
+  const template = LOCALES[locale].messages[key] ?? en[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+};
+
+// Runtimes without data for a locale (pcm in particular) format in English instead
+export const formatDate = (
+  value: string | number | Date,
+  locale: Locale,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }
+): string => {
+  const date = value instanceof Date ? value : new Date(value);
+  try {
+    return new Intl.DateTimeFormat([LOCALES[locale].tag, 'en'], options).format(date);
+  } catch {
+    return date.toLocaleDateString('en', options);
+  }
+};
+
+// --- Store ---
+const STORAGE_KEY = 'christtech.locale';
+
+const readStoredLocale = (): Locale | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isLocale(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+let locale: Locale | null = null;
+const listeners = new Set<() => void>();
+
+const applyLocale = (next: Locale) => {
+  locale = next;
+  if (typeof document !== 'undefined') document.documentElement.lang = LOCALES[next].tag;
+};
+
+export const getLocale = (): Locale => {
+  if (!locale) {
+    if (typeof window === 'undefined') return DEFAULT_LOCALE;
+    applyLocale(readStoredLocale() ?? detectLocale(navigator.languages ?? [navigator.language]));
+  }
+  return locale as Locale;
+};
+
+export const setLocale = (next: Locale) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, next);
+  } catch {
+    // Storage unavailable: the choice lasts until the page is reloaded
+  }
+  applyLocale(next);
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeLocale = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// --- Hook ---
+const translators = {} as Partial<Record<Locale, Translate>>;
+
+const translatorFor = (current: Locale) => (translators[current] ??= createTranslator(current));
+
+export const useI18n = () => {
+  const current = useSyncExternalStore(subscribeLocale, getLocale, () => DEFAULT_LOCALE);
+  return {
+    locale: current,
+    t: translatorFor(current),
+    setLocale,
+    formatDate: (value: string | number | Date, options?: Intl.DateTimeFormatOptions) => formatDate(value, current, options)
+  };
+};
@@ -0,0 +1,216 @@
+// Source catalog. Every other locale must translate each of these keys; `{name}` style
+// placeholders are filled in by the translator and must be kept as they are.
+const en = {
+  'nav.about': 'About',
+  'nav.projects': 'Projects',
+  'nav.skills': 'Skills',
+  'nav.blog': 'Blog',
+  'nav.contact': 'Contact',
+  'nav.getInTouch': 'GET IN TOUCH',
+  'nav.language': 'Language',
+  'nav.menu': 'Menu',
+  'nav.theme': 'Theme: {mode}. Switch theme',
+  'nav.skip': 'Skip to content',
+  'links.email': 'Email',
+  'theme.system': 'System',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+
+  'hero.explore': 'EXPLORE WORK',
+  'hero.chat': "LET'S CHAT",
+
+  'about.eyebrow': 'About {name}',
+  'about.titleLine1': 'Driven by',
+  'about.titleLine2': 'Innovation',
+  'about.titleHighlight': '& AI.',
+
+  'projects.eyebrow': 'Portfolio',
+  'projects.title': 'Latest',
+  'projects.titleHighlight': 'Projects.',
+  'projects.intro': 'Building intelligent systems that combine machine learning, robotics, and cutting-edge software engineering.',
+  'projects.search': 'Search projects...',
+  'projects.sort': 'Sort by',
+  'projects.sortPinned': 'Curated',
+  'projects.sortStars': 'Most stars',
+  'projects.sortUpdated': 'Recently updated',
+  'projects.count': '{shown} of {total} projects',
+  'projects.clear': 'Clear filters',
+  'projects.error': 'Unable to load projects',
+  'projects.empty': 'No projects match these filters.',
+  'projects.loadMore': 'LOAD MORE',
+  'projects.viewAll': 'VIEW ALL ON GITHUB',
+  'projects.view': 'View Project',
+  'projects.openHomepage': 'Open homepage',
+  'projects.openGithub': 'View {title} on GitHub',
+  'projects.featured': 'Featured',
+  'projects.snapshotFrom': 'Showing a snapshot from {date}.',
+  'projects.snapshot': 'Showing a saved snapshot.',
+  'projects.cachedAt': 'Showing repos cached at {time}.',
+  'projects.refreshing': 'Checking GitHub for updates…',
+  'projects.rateLimited': "GitHub's hourly limit was reached; data will refresh after {time}.",
+
+  'project.back': 'Back to projects',
+  'project.source': 'SOURCE',
+  'project.homepage': 'HOMEPAGE',
+  'project.readmeLoading': 'Loading README…',
+  'project.readmeMissing': 'This repository has no README yet.',
+  'project.readmeError': "The README couldn't be loaded.",
+  'project.readmeOnGithub': 'Read it on GitHub',
+  'project.stars': 'stars',
+  'project.updated': 'Updated',
+  'project.languages': 'Languages',
+  'project.topics': 'Topics',
+  'project.notFound': 'Project not found.',
+  'project.notFoundText': 'There is no project called “{repo}” here.',
+  'project.seeAll': 'SEE ALL PROJECTS',
+
+  'skills.eyebrow': 'Capabilities',
+  'skills.title': 'Technical',
+  'skills.titleHighlight': 'DNA.',
+
+  'contact.eyebrow': 'Get in touch',
+  'contact.titleLine1': "Let's build",
+  'contact.titleLine2': 'the',
+  'contact.titleHighlight': 'Future.',
+  'contact.emailAddress': 'Email Address',
+  'contact.whatsapp': 'WhatsApp',
+  'contact.whatsappCta': 'Chat on WhatsApp',
+  'contact.location': 'Location',
+  'contact.sent': 'Message Sent!',
+  'contact.sentText': '{name} will get back to you faster than a neural network trains!',
+  'contact.sendAnother': 'SEND ANOTHER',
+  'contact.name': 'Name',
+  'contact.namePlaceholder': 'E.g. Adebisi Victor',
+  'contact.email': 'Email',
+  'contact.emailPlaceholder': 'victor@gmail.com',
+  'contact.message': 'Message',
+  'contact.messagePlaceholder': "Let's work together...",
+  'contact.sending': 'Transmitting...',
+  'contact.send': 'Send Transmission',
+  'contact.error': 'Something went wrong. Please try again.',
+  'contact.networkError': 'Network error. Please check your connection and try again.',
+  'contact.errorNameRequired': 'Please enter your name.',
+  'contact.errorNameLong': 'Names are limited to {max} characters.',
+  'contact.errorEmail': 'Please enter a valid email address.',
+  'contact.errorMessageShort': 'Please write at least {min} characters.',
+  'contact.errorMessageLong': 'Messages are limited to {max} characters.',
+  'contact.rateLimited': "You've sent a few messages already. Please try again in {minutes} min.",
+  'contact.honeypot': 'Leave this field empty',
+  'contact.inquiry': 'What is this about?',
+  'contact.inquiryProject': 'A project or hire',
+  'contact.inquiryTutoring': 'Tutoring',
+  'contact.inquiryCollaboration': 'Collaboration',
+  'contact.inquiryGeneral': 'Something else',
+  'contact.choose': 'Choose one...',
+  'contact.budget': 'Budget',
+  'contact.budgetUnder500': 'Under $500',
+  'contact.budget500to2000': '$500 – $2,000',
+  'contact.budget2000to10000': '$2,000 – $10,000',
+  'contact.budgetOver10000': 'Over $10,000',
+  'contact.budgetUnsure': 'Not sure yet',
+  'contact.timeline': 'Timeline',
+  'contact.timelineAsap': 'As soon as possible',
+  'contact.timeline1to3': '1 – 3 months',
+  'contact.timeline3to6': '3 – 6 months',
+  'contact.timelineFlexible': 'Flexible',
+  'contact.studentAge': "Student's age",
+  'contact.studentAgePlaceholder': 'E.g. 14',
+  'contact.experience': 'Experience level',
+  'contact.experienceNone': 'Complete beginner',
+  'contact.experienceBeginner': 'Knows the basics',
+  'contact.experienceIntermediate': 'Has built a few projects',
+  'contact.experienceAdvanced': 'Advanced',
+  'contact.links': 'Links',
+  'contact.linksPlaceholder': 'GitHub, portfolio or project links, one per line',
+  'contact.errorChoose': 'Please pick an option.',
+  'contact.errorStudentAge': 'Please enter an age between {min} and {max}.',
+  'contact.errorLinks': 'Please add 1 to {max} links, each starting with http:// or https://.',
+  'contact.summary': "Here's what you sent",
+  'contact.summaryReply': 'The reply will go to {email}.',
+  'contact.queued': 'Queued',
+  'contact.queuedText': "Queued — will send when you're back online.",
+  'contact.outboxPending': "Messages waiting to send: {count}. They'll go out when you're back online.",
+  'contact.outboxRejected': 'Messages not delivered: {count}. The contact service refused them; check the details and send again.',
+  'contact.editRejected': 'Edit and resend',
+  'contact.draftRestored': 'Your unsent draft has been restored.',
+  'contact.discardDraft': 'Start over',
+
+  'blog.eyebrow': 'Blog',
+  'blog.title': 'Notes from the',
+  'blog.titleHighlight': 'workshop.',
+  'blog.intro': 'Build logs and write-ups on the ML and robotics projects here.',
+  'blog.feed': 'Atom feed',
+  'blog.loading': 'Loading posts…',
+  'blog.empty': 'No posts yet.',
+  'blog.noneTagged': 'No posts tagged #{tag}.',
+  'blog.seeAll': 'See all posts',
+  'blog.readingTime': '{minutes} min read',
+  'blog.allPosts': 'All posts',
+  'blog.postLoading': 'Loading post…',
+  'blog.notFound': 'Post not found.',
+  'blog.related': 'Projects in this post',
+
+  'notFound.title': 'Page not found.',
+  'notFound.text': 'Nothing lives at {path}.',
+  'notFound.home': 'BACK HOME',
+
+  'analytics.on': 'Anonymous, cookie-free usage stats are on.',
+  'analytics.off': 'Usage stats are off.',
+  'analytics.dnt': 'Do Not Track is on, so nothing is recorded.',
+  'analytics.turnOff': 'Turn off',
+  'analytics.turnOn': 'Turn on',
+
+  'stats.title': 'Site stats',
+  'stats.range': 'Last {days} days',
+  'stats.tokenPrompt': 'Enter the token set as ANALYTICS_TOKEN on the server.',
+  'stats.token': 'Token',
+  'stats.open': 'OPEN',
+  'stats.error': 'Could not load the stats.',
+  'stats.empty': 'No events recorded yet. The site sends them when VITE_ANALYTICS_SINK=collector.',
+  'stats.pageViews': 'Page views',
+  'stats.projectClicks': 'Project clicks',
+  'stats.chatOpens': 'Chat opens',
+  'stats.chatMessages': 'Chat messages',
+  'stats.contactSent': 'Messages sent',
+  'stats.contactQueued': 'Queued offline',
+  'stats.contactErrors': 'Failed sends',
+  'stats.daily': 'Page views per day',
+  'stats.topPages': 'Top pages',
+  'stats.topProjects': 'Most clicked projects',
+  'stats.failures': 'Why sends failed',
+  'stats.none': 'Nothing yet.',
+
+  'common.loading': 'Loading…',
+  'common.copyCode': 'Copy code',
+  'common.copied': 'Copied',
+
+  'chat.title': 'AI Assistant',
+  'chat.welcome': "Hi! I'm {name}'s AI assistant. Ask me anything about machine learning, robotics projects, or tech stack!",
+  'chat.export': 'Export transcript',
+  'chat.newConversation': 'New conversation',
+  'chat.open': 'Open the AI assistant',
+  'chat.close': 'Close',
+  'chat.retry': 'Retry',
+  'chat.placeholder': 'Ask about my projects...',
+  'chat.message': 'Message',
+  'chat.messages': 'Conversation',
+  'chat.send': 'Send',
+  'chat.stop': 'Stop generating',
+  'chat.replying': 'The assistant is replying…',
+  'chat.stopped': 'Generation stopped.',
+  'chat.errorMissingKey': "The assistant isn't configured yet. You can still reach {name} through the contact form below.",
+  'chat.errorRateLimited': "You're sending messages a little fast. Give it a moment and try again.",
+  'chat.errorRateLimitedWait': "You're sending messages a little fast. Try again in {seconds}s.",
+  'chat.errorNetwork': 'You seem to be offline. Check your connection and retry.',
+  'chat.errorModel': "The model couldn't answer that right now. Please try again.",
+  'chat.errorInvalidRequest': "That message couldn't be sent. Messages are limited to {max} characters.",
+  'chat.starterRobotics': 'What robotics projects has he built?',
+  'chat.starterHire': 'Is he available for hire?',
+  'chat.starterLanguage': 'Which of his projects use {language}?',
+  'chat.starterProject': 'Tell me about {project}.',
+  'chat.starterSkill': "What's his experience with {skill}?"
+};
+
+export type MessageKey = keyof typeof en;
+
+export default en;
@@ -0,0 +1,215 @@
+import type { Messages } from '../i18n';
+
+// Naijá (Nigerian Pidgin)
+const pcm: Messages = {
+  'nav.about': 'About',
+  'nav.projects': 'Projects',
+  'nav.skills': 'Skills',
+  'nav.blog': 'Blog',
+  'nav.contact': 'Contact',
+  'nav.getInTouch': 'YARN WITH US',
+  'nav.language': 'Language',
+  'nav.menu': 'Menu',
+  'nav.theme': 'Theme: {mode}. Change am',
+  'nav.skip': 'Jump go content',
+  'links.email': 'Email',
+  'theme.system': 'System',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+
+  'hero.explore': 'SEE THE WORK',
+  'hero.chat': 'MAKE WE TALK',
+
+  'about.eyebrow': 'About {name}',
+  'about.titleLine1': 'Na',
+  'about.titleLine2': 'Innovation',
+  'about.titleHighlight': '& AI dey drive am.',
+
+  'projects.eyebrow': 'Portfolio',
+  'projects.title': 'Latest',
+  'projects.titleHighlight': 'Projects.',
+  'projects.intro': 'We dey build sharp systems wey join machine learning, robotics and correct software engineering together.',
+  'projects.search': 'Find project...',
+  'projects.sort': 'Arrange am by',
+  'projects.sortPinned': 'Hand-picked',
+  'projects.sortStars': 'Plenty stars',
+  'projects.sortUpdated': 'New update',
+  'projects.count': '{shown} out of {total} projects',
+  'projects.clear': 'Clear filter',
+  'projects.error': 'Projects no gree load',
+  'projects.empty': 'No project match wetin you select.',
+  'projects.loadMore': 'SHOW MORE',
+  'projects.viewAll': 'SEE ALL FOR GITHUB',
+  'projects.view': 'See Project',
+  'projects.openHomepage': 'Open homepage',
+  'projects.openGithub': 'See {title} for GitHub',
+  'projects.featured': 'Featured',
+  'projects.snapshotFrom': 'Na snapshot from {date} you dey see.',
+  'projects.snapshot': 'Na saved snapshot you dey see.',
+  'projects.cachedAt': 'Na repos wey we save for {time} you dey see.',
+  'projects.refreshing': 'We dey check GitHub for new update…',
+  'projects.rateLimited': 'GitHub limit for this hour don finish; e go refresh after {time}.',
+
+  'project.back': 'Go back to projects',
+  'project.source': 'SOURCE',
+  'project.homepage': 'HOMEPAGE',
+  'project.readmeLoading': 'README dey load…',
+  'project.readmeMissing': 'This repo never get README.',
+  'project.readmeError': 'README no gree load.',
+  'project.readmeOnGithub': 'Read am for GitHub',
+  'project.stars': 'stars',
+  'project.updated': 'Last update',
+  'project.languages': 'Languages',
+  'project.topics': 'Topics',
+  'project.notFound': 'We no see dis project.',
+  'project.notFoundText': 'No project wey dem call “{repo}” dey here.',
+  'project.seeAll': 'SEE ALL PROJECTS',
+
+  'skills.eyebrow': 'Wetin e fit do',
+  'skills.title': 'Technical',
+  'skills.titleHighlight': 'DNA.',
+
+  'contact.eyebrow': 'Reach out',
+  'contact.titleLine1': 'Make we build',
+  'contact.titleLine2': 'the',
+  'contact.titleHighlight': 'Future.',
+  'contact.emailAddress': 'Email Address',
+  'contact.whatsapp': 'WhatsApp',
+  'contact.whatsappCta': 'Chat for WhatsApp',
+  'contact.location': 'Where',
+  'contact.sent': 'Message don send!',
+  'contact.sentText': '{name} go reply you sharp sharp, pass how neural network dey train!',
+  'contact.sendAnother': 'SEND ANOTHER ONE',
+  'contact.name': 'Name',
+  'contact.namePlaceholder': 'E.g. Adebisi Victor',
+  'contact.email': 'Email',
+  'contact.emailPlaceholder': 'victor@gmail.com',
+  'contact.message': 'Message',
+  'contact.messagePlaceholder': 'Make we work together...',
+  'contact.sending': 'E dey send...',
+  'contact.send': 'Send Am',
+  'contact.error': 'Something no work well. Abeg try again.',
+  'contact.networkError': 'Network wahala. Abeg check your connection come try again.',
+  'contact.errorNameRequired': 'Abeg put your name.',
+  'contact.errorNameLong': 'Name no fit pass {max} characters.',
+  'contact.errorEmail': 'Abeg put correct email address.',
+  'contact.errorMessageShort': 'Abeg write at least {min} characters.',
+  'contact.errorMessageLong': 'Message no fit pass {max} characters.',
+  'contact.rateLimited': 'You don send message reach. Abeg try again after {minutes} min.',
+  'contact.honeypot': 'No write anything for here',
+  'contact.inquiry': 'Wetin you wan talk about?',
+  'contact.inquiryProject': 'Project or work',
+  'contact.inquiryTutoring': 'Tutoring',
+  'contact.inquiryCollaboration': 'Make we collabo',
+  'contact.inquiryGeneral': 'Another thing',
+  'contact.choose': 'Pick one...',
+  'contact.budget': 'Budget',
+  'contact.budgetUnder500': 'Under $500',
+  'contact.budget500to2000': '$500 – $2,000',
+  'contact.budget2000to10000': '$2,000 – $10,000',
+  'contact.budgetOver10000': 'Pass $10,000',
+  'contact.budgetUnsure': 'I never sure yet',
+  'contact.timeline': 'When e go ready',
+  'contact.timelineAsap': 'Sharp sharp',
+  'contact.timeline1to3': '1 – 3 months',
+  'contact.timeline3to6': '3 – 6 months',
+  'contact.timelineFlexible': 'Any time wey fit',
+  'contact.studentAge': 'How old the student be',
+  'contact.studentAgePlaceholder': 'E.g. 14',
+  'contact.experience': 'How far the student don go',
+  'contact.experienceNone': 'Na fresh beginner',
+  'contact.experienceBeginner': 'Sabi the basics',
+  'contact.experienceIntermediate': 'Don build some projects',
+  'contact.experienceAdvanced': 'Don sabi well well',
+  'contact.links': 'Links',
+  'contact.linksPlaceholder': 'GitHub, portfolio or project links, one for each line',
+  'contact.errorChoose': 'Abeg pick one.',
+  'contact.errorStudentAge': 'Abeg put age wey dey between {min} and {max}.',
+  'contact.errorLinks': 'Abeg put 1 reach {max} links, each one suppose start with http:// or https://.',
+  'contact.summary': 'Na wetin you send be this',
+  'contact.summaryReply': 'Reply go come {email}.',
+  'contact.queued': 'E dey wait',
+  'contact.queuedText': 'E dey line — e go send once your network come back.',
+  'contact.outboxPending': 'Message wey dey wait to send: {count}. Dem go comot once your network come back.',
+  'contact.outboxRejected': 'Message wey no reach: {count}. The contact service no gree collect am; check wetin you write and send am again.',
+  'contact.editRejected': 'Edit am, send again',
+  'contact.draftRestored': 'We don bring back the message wey you never send.',
+  'contact.discardDraft': 'Start again',
+
+  'blog.eyebrow': 'Blog',
+  'blog.title': 'Gist from the',
+  'blog.titleHighlight': 'workshop.',
+  'blog.intro': 'Build logs and write-ups about the ML and robotics projects wey dey here.',
+  'blog.feed': 'Atom feed',
+  'blog.loading': 'Posts dey load…',
+  'blog.empty': 'No post never land.',
+  'blog.noneTagged': 'No post get #{tag}.',
+  'blog.seeAll': 'See all posts',
+  'blog.readingTime': '{minutes} min to read',
+  'blog.allPosts': 'All posts',
+  'blog.postLoading': 'Post dey load…',
+  'blog.notFound': 'We no see dis post.',
+  'blog.related': 'Projects for dis post',
+
+  'notFound.title': 'Dis page no dey.',
+  'notFound.text': 'Nothing dey for {path}.',
+  'notFound.home': 'GO BACK HOME',
+
+  'analytics.on': 'We dey count visits without cookie, and we no sabi who you be.',
+  'analytics.off': 'We no dey count your visit.',
+  'analytics.dnt': 'Do Not Track dey on, so we no dey record anything.',
+  'analytics.turnOff': 'Off am',
+  'analytics.turnOn': 'On am',
+
+  'stats.title': 'Site stats',
+  'stats.range': 'Last {days} days',
+  'stats.tokenPrompt': 'Put the token wey dem set as ANALYTICS_TOKEN for server.',
+  'stats.token': 'Token',
+  'stats.open': 'OPEN AM',
+  'stats.error': 'We no fit load the stats.',
+  'stats.empty': 'No event dey yet. The site go send dem when VITE_ANALYTICS_SINK=collector.',
+  'stats.pageViews': 'Page views',
+  'stats.projectClicks': 'Project clicks',
+  'stats.chatOpens': 'Chat wey dem open',
+  'stats.chatMessages': 'Chat messages',
+  'stats.contactSent': 'Messages wey go',
+  'stats.contactQueued': 'E wait for network',
+  'stats.contactErrors': 'Messages wey fail',
+  'stats.daily': 'Page views every day',
+  'stats.topPages': 'Top pages',
+  'stats.topProjects': 'Projects wey people click pass',
+  'stats.failures': 'Why e fail',
+  'stats.none': 'Nothing yet.',
+
+  'common.loading': 'E dey load…',
+  'common.copyCode': 'Copy di code',
+  'common.copied': 'E don copy',
+
+  'chat.title': 'AI Assistant',
+  'chat.welcome': 'How far! Na me be {name} AI assistant. Ask me anything about machine learning, robotics projects or tech stack!',
+  'chat.export': 'Download di chat',
+  'chat.newConversation': 'Start new chat',
+  'chat.open': 'Open di AI assistant',
+  'chat.close': 'Close',
+  'chat.retry': 'Try again',
+  'chat.placeholder': 'Ask about my projects...',
+  'chat.message': 'Message',
+  'chat.messages': 'Conversation',
+  'chat.send': 'Send',
+  'chat.stop': 'Stop am',
+  'chat.replying': 'Assistant dey reply…',
+  'chat.stopped': 'Reply don stop.',
+  'chat.errorMissingKey': 'Dem never set up di assistant. You fit still reach {name} with di contact form below.',
+  'chat.errorRateLimited': 'You dey send message too fast. Wait small come try again.',
+  'chat.errorRateLimitedWait': 'You dey send message too fast. Try again after {seconds}s.',
+  'chat.errorNetwork': 'E be like say you no get network. Check your connection come try again.',
+  'chat.errorModel': 'Di model no fit answer dat one now. Abeg try again.',
+  'chat.errorInvalidRequest': 'Dat message no fit send. Message no fit pass {max} characters.',
+  'chat.starterRobotics': 'Which robotics projects him don build?',
+  'chat.starterHire': 'Him dey available for work?',
+  'chat.starterLanguage': 'Which of him projects use {language}?',
+  'chat.starterProject': 'Tell me about {project}.',
+  'chat.starterSkill': 'How much experience him get for {skill}?'
+};
+
+export default pcm;
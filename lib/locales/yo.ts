@@ -0,0 +1,215 @@
+import type { Messages } from '../i18n';
+
+// Yorùbá
+const yo: Messages = {
+  'nav.about': 'Nípa wa',
+  'nav.projects': 'Iṣẹ́ àkànṣe',
+  'nav.skills': 'Ọgbọ́n',
+  'nav.blog': 'Búlọ́ọ̀gù',
+  'nav.contact': 'Kàn sí wa',
+  'nav.getInTouch': 'KÀN SÍ WA',
+  'nav.language': 'Èdè',
+  'nav.menu': 'Àkójọ',
+  'nav.theme': 'Àwọ̀: {mode}. Yí i padà',
+  'nav.skip': 'Fò sí àkóónú',
+  'links.email': 'Ímeèlì',
+  'theme.system': 'Ti ẹ̀rọ',
+  'theme.light': 'Ìmọ́lẹ̀',
+  'theme.dark': 'Òkùnkùn',
+
+  'hero.explore': 'WO IṢẸ́ WA',
+  'hero.chat': 'Ẹ JẸ́ KÁ SỌ̀RỌ̀',
+
+  'about.eyebrow': 'Nípa {name}',
+  'about.titleLine1': 'Ìmọ̀tuntun',
+  'about.titleLine2': 'àti AI',
+  'about.titleHighlight': 'ló ń darí wa.',
+
+  'projects.eyebrow': 'Àkójọ iṣẹ́',
+  'projects.title': 'Iṣẹ́ àkànṣe',
+  'projects.titleHighlight': 'tuntun.',
+  'projects.intro': 'À ń kọ́ àwọn ètò olóye tí ó so ẹ̀kọ́ ẹ̀rọ (machine learning), robotiki àti ìmọ̀ ẹ̀rọ sọ́fúwíà pọ̀.',
+  'projects.search': 'Wá iṣẹ́ àkànṣe...',
+  'projects.sort': 'Tò ó lẹ́sẹẹsẹ',
+  'projects.sortPinned': 'Àṣàyàn',
+  'projects.sortStars': 'Ìràwọ̀ tó pọ̀ jù',
+  'projects.sortUpdated': 'Àtúnṣe tuntun',
+  'projects.count': '{shown} nínú {total} iṣẹ́ àkànṣe',
+  'projects.clear': 'Pa àṣàyàn rẹ́',
+  'projects.error': 'A kò lè gbé àwọn iṣẹ́ àkànṣe wá',
+  'projects.empty': 'Kò sí iṣẹ́ àkànṣe tó bá àṣàyàn yìí mu.',
+  'projects.loadMore': 'FI PÚPỌ̀ HÀN',
+  'projects.viewAll': 'WO GBOGBO RẸ̀ LÓRÍ GITHUB',
+  'projects.view': 'Wo iṣẹ́ náà',
+  'projects.openHomepage': 'Ṣí ojú-ewé rẹ̀',
+  'projects.openGithub': 'Wo {title} lórí GitHub',
+  'projects.featured': 'Àyànfẹ́',
+  'projects.snapshotFrom': 'Àwòrán ìpamọ́ láti {date} lò ń wò.',
+  'projects.snapshot': 'Àwòrán ìpamọ́ lò ń wò.',
+  'projects.cachedAt': 'Àwọn repo tí a pamọ́ ní {time} lò ń wò.',
+  'projects.refreshing': 'À ń ṣàyẹ̀wò GitHub fún àtúnṣe…',
+  'projects.rateLimited': 'Ààlà wákàtí GitHub ti kún; a ó tún un ṣe lẹ́yìn {time}.',
+
+  'project.back': 'Padà sí iṣẹ́ àkànṣe',
+  'project.source': 'KÓÒDÙ',
+  'project.homepage': 'OJÚ-EWÉ',
+  'project.readmeLoading': 'À ń gbé README wá…',
+  'project.readmeMissing': 'Repo yìí kò tíì ní README.',
+  'project.readmeError': 'A kò lè gbé README wá.',
+  'project.readmeOnGithub': 'Kà á lórí GitHub',
+  'project.stars': 'ìràwọ̀',
+  'project.updated': 'Àtúnṣe',
+  'project.languages': 'Èdè kóòdù',
+  'project.topics': 'Àkòrí',
+  'project.notFound': 'A kò rí iṣẹ́ àkànṣe náà.',
+  'project.notFoundText': 'Kò sí iṣẹ́ àkànṣe tí a ń pè ní “{repo}” níbí.',
+  'project.seeAll': 'WO GBOGBO IṢẸ́ ÀKÀNṢE',
+
+  'skills.eyebrow': 'Agbára',
+  'skills.title': 'Ọgbọ́n',
+  'skills.titleHighlight': 'ìmọ̀ ẹ̀rọ.',
+
+  'contact.eyebrow': 'Kàn sí wa',
+  'contact.titleLine1': 'Ẹ jẹ́ ká jọ kọ́',
+  'contact.titleLine2': 'ọjọ́',
+  'contact.titleHighlight': 'iwájú.',
+  'contact.emailAddress': 'Àdírẹ́sì ímeèlì',
+  'contact.whatsapp': 'WhatsApp',
+  'contact.whatsappCta': 'Bá wa sọ̀rọ̀ lórí WhatsApp',
+  'contact.location': 'Ibùdó',
+  'contact.sent': 'A ti fi ìránṣẹ́ ránṣẹ́!',
+  'contact.sentText': '{name} yóò dá ọ lóhùn kíákíá!',
+  'contact.sendAnother': 'FI ÒMÍRÀN RÁNṢẸ́',
+  'contact.name': 'Orúkọ',
+  'contact.namePlaceholder': 'Àpẹẹrẹ: Adebisi Victor',
+  'contact.email': 'Ímeèlì',
+  'contact.emailPlaceholder': 'victor@gmail.com',
+  'contact.message': 'Ìránṣẹ́',
+  'contact.messagePlaceholder': 'Ẹ jẹ́ ká jọ ṣiṣẹ́...',
+  'contact.sending': 'À ń fi ránṣẹ́...',
+  'contact.send': 'Fi ránṣẹ́',
+  'contact.error': 'Nǹkan kan ṣàṣìṣe. Jọ̀ọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'contact.networkError': 'Ìṣòro nẹ́tíwọ̀ọ̀kì. Jọ̀ọ́ ṣàyẹ̀wò ìsopọ̀ rẹ kí o sì gbìyànjú lẹ́ẹ̀kan sí i.',
+  'contact.errorNameRequired': 'Jọ̀ọ́ kọ orúkọ rẹ.',
+  'contact.errorNameLong': 'Orúkọ kò gbọdọ̀ ju lẹ́tà {max} lọ.',
+  'contact.errorEmail': 'Jọ̀ọ́ kọ àdírẹ́sì ímeèlì tó tọ́.',
+  'contact.errorMessageShort': 'Jọ̀ọ́ kọ ó kéré tán lẹ́tà {min}.',
+  'contact.errorMessageLong': 'Ìránṣẹ́ kò gbọdọ̀ ju lẹ́tà {max} lọ.',
+  'contact.rateLimited': 'O ti fi ìránṣẹ́ púpọ̀ ránṣẹ́. Jọ̀ọ́ tún gbìyànjú lẹ́yìn ìṣẹ́jú {minutes}.',
+  'contact.honeypot': 'Má kọ nǹkankan síbí',
+  'contact.inquiry': 'Kí ni ó jẹ mọ́?',
+  'contact.inquiryProject': 'Iṣẹ́ àkànṣe tàbí gbígbà síṣẹ́',
+  'contact.inquiryTutoring': 'Ìdánilẹ́kọ̀ọ́',
+  'contact.inquiryCollaboration': 'Àjọṣepọ̀',
+  'contact.inquiryGeneral': 'Nǹkan mìíràn',
+  'contact.choose': 'Yan ọ̀kan...',
+  'contact.budget': 'Ìnáwó',
+  'contact.budgetUnder500': 'Kò tó $500',
+  'contact.budget500to2000': '$500 – $2,000',
+  'contact.budget2000to10000': '$2,000 – $10,000',
+  'contact.budgetOver10000': 'Ju $10,000 lọ',
+  'contact.budgetUnsure': 'Kò dá mi lójú síbẹ̀',
+  'contact.timeline': 'Àkókò',
+  'contact.timelineAsap': 'Ní kíákíá',
+  'contact.timeline1to3': 'Oṣù 1 – 3',
+  'contact.timeline3to6': 'Oṣù 3 – 6',
+  'contact.timelineFlexible': 'Ó rọrùn',
+  'contact.studentAge': 'Ọjọ́ orí akẹ́kọ̀ọ́',
+  'contact.studentAgePlaceholder': 'Àpẹẹrẹ: 14',
+  'contact.experience': 'Ìpele ìrírí',
+  'contact.experienceNone': 'Olùbẹ̀rẹ̀ pátápátá',
+  'contact.experienceBeginner': 'Mọ àwọn ìpìlẹ̀',
+  'contact.experienceIntermediate': 'Ti kọ́ àwọn iṣẹ́ díẹ̀',
+  'contact.experienceAdvanced': 'Ti gòkè àgbà',
+  'contact.links': 'Àwọn ìjápọ̀',
+  'contact.linksPlaceholder': 'Ìjápọ̀ GitHub, portfolio tàbí iṣẹ́, ọ̀kan ní ìlà kọ̀ọ̀kan',
+  'contact.errorChoose': 'Jọ̀ọ́ yan ọ̀kan.',
+  'contact.errorStudentAge': 'Jọ̀ọ́ kọ ọjọ́ orí láàrín {min} sí {max}.',
+  'contact.errorLinks': 'Jọ̀ọ́ fi ìjápọ̀ 1 sí {max} kún un, kí ọ̀kọ̀ọ̀kan bẹ̀rẹ̀ pẹ̀lú http:// tàbí https://.',
+  'contact.summary': 'Ohun tí o fi ránṣẹ́ nìyí',
+  'contact.summaryReply': 'Èsì yóò lọ sí {email}.',
+  'contact.queued': 'Ó wà ní ìlà',
+  'contact.queuedText': 'Ó wà ní ìlà — yóò lọ nígbà tí ẹ̀rọ ayélujára rẹ bá padà.',
+  'contact.outboxPending': 'Ìránṣẹ́ tó ń dúró láti lọ: {count}. Wọn yóò lọ nígbà tí ẹ̀rọ ayélujára rẹ bá padà.',
+  'contact.outboxRejected': 'Ìránṣẹ́ tí kò dé: {count}. Iṣẹ́ ìkànsí kọ̀ wọ́n; ṣàyẹ̀wò wọn kí o sì tún fi ránṣẹ́.',
+  'contact.editRejected': 'Ṣàtúnṣe kí o tún fi ránṣẹ́',
+  'contact.draftRestored': 'A ti dá ìránṣẹ́ tí o kò tíì fi ránṣẹ́ padà.',
+  'contact.discardDraft': 'Bẹ̀rẹ̀ lákọ̀tun',
+
+  'blog.eyebrow': 'Búlọ́ọ̀gù',
+  'blog.title': 'Àkọsílẹ̀ láti',
+  'blog.titleHighlight': 'ibi iṣẹ́.',
+  'blog.intro': 'Ìtàn bí a ṣe kọ́ àwọn iṣẹ́ àkànṣe ML àti robotiki tó wà níbí.',
+  'blog.feed': 'Atom feed',
+  'blog.loading': 'À ń gbé àwọn àkọsílẹ̀ wá…',
+  'blog.empty': 'Kò tíì sí àkọsílẹ̀ kankan.',
+  'blog.noneTagged': 'Kò sí àkọsílẹ̀ tó ní #{tag}.',
+  'blog.seeAll': 'Wo gbogbo àkọsílẹ̀',
+  'blog.readingTime': 'Ìṣẹ́jú {minutes} láti kà á',
+  'blog.allPosts': 'Gbogbo àkọsílẹ̀',
+  'blog.postLoading': 'À ń gbé àkọsílẹ̀ náà wá…',
+  'blog.notFound': 'A kò rí àkọsílẹ̀ náà.',
+  'blog.related': 'Iṣẹ́ àkànṣe nínú àkọsílẹ̀ yìí',
+
+  'notFound.title': 'A kò rí ojú-ewé náà.',
+  'notFound.text': 'Kò sí nǹkankan ní {path}.',
+  'notFound.home': 'PADÀ SÍLÉ',
+
+  'analytics.on': 'À ń ka ìbẹ̀wò láìsí cookie, a kò sì mọ ẹni tí ẹ jẹ́.',
+  'analytics.off': 'A kò ka ìbẹ̀wò yín.',
+  'analytics.dnt': 'Do Not Track wà ní títàn, nítorí náà a kò kọ nǹkankan sílẹ̀.',
+  'analytics.turnOff': 'Pa á',
+  'analytics.turnOn': 'Tàn án',
+
+  'stats.title': 'Ìṣirò ojú-òpó',
+  'stats.range': 'Ọjọ́ {days} tó kọjá',
+  'stats.tokenPrompt': 'Tẹ token tí a ṣètò gẹ́gẹ́ bí ANALYTICS_TOKEN lórí server.',
+  'stats.token': 'Token',
+  'stats.open': 'ṢÍ I',
+  'stats.error': 'A kò lè gbé ìṣirò náà wá.',
+  'stats.empty': 'Kò sí ìṣẹ̀lẹ̀ kankan síbẹ̀. Ojú-òpó yóò fi wọ́n ránṣẹ́ nígbà tí VITE_ANALYTICS_SINK=collector.',
+  'stats.pageViews': 'Ìwò ojú-ewé',
+  'stats.projectClicks': 'Títẹ iṣẹ́ àkànṣe',
+  'stats.chatOpens': 'Ìṣí ìjíròrò',
+  'stats.chatMessages': 'Ọ̀rọ̀ ìjíròrò',
+  'stats.contactSent': 'Ọ̀rọ̀ tí ó lọ',
+  'stats.contactQueued': 'Wọ́n dúró de ẹ̀rọ ayélujára',
+  'stats.contactErrors': 'Ọ̀rọ̀ tí kò lọ',
+  'stats.daily': 'Ìwò ojú-ewé lójoojúmọ́',
+  'stats.topPages': 'Àwọn ojú-ewé tó gbajúmọ̀',
+  'stats.topProjects': 'Iṣẹ́ àkànṣe tí wọ́n tẹ̀ jù',
+  'stats.failures': 'Ìdí tí kò fi lọ',
+  'stats.none': 'Kò sí nǹkankan síbẹ̀.',
+
+  'common.loading': 'Ó ń bọ̀…',
+  'common.copyCode': 'Ṣe ẹ̀dà kóòdù',
+  'common.copied': 'A ti ṣe ẹ̀dà',
+
+  'chat.title': 'Olùrànlọ́wọ́ AI',
+  'chat.welcome': 'Ẹ n lẹ́ o! Èmi ni olùrànlọ́wọ́ AI ti {name}. Bi mí ní ohunkóhun nípa machine learning, iṣẹ́ robotiki, tàbí àwọn irinṣẹ́ tí a ń lò!',
+  'chat.export': 'Ṣe ìgbàsílẹ̀ ìfọ̀rọ̀wérọ̀',
+  'chat.newConversation': 'Ìfọ̀rọ̀wérọ̀ tuntun',
+  'chat.open': 'Ṣí olùrànlọ́wọ́ AI',
+  'chat.close': 'Pa á dé',
+  'chat.retry': 'Tún gbìyànjú',
+  'chat.placeholder': 'Béèrè nípa iṣẹ́ àkànṣe mi...',
+  'chat.message': 'Ọ̀rọ̀',
+  'chat.messages': 'Ìjíròrò',
+  'chat.send': 'Fi ránṣẹ́',
+  'chat.stop': 'Dá a dúró',
+  'chat.replying': 'Olùrànlọ́wọ́ ń dáhùn…',
+  'chat.stopped': 'A ti dá ìdáhùn dúró.',
+  'chat.errorMissingKey': 'A kò tíì ṣètò olùrànlọ́wọ́ náà. O ṣì lè kàn sí {name} pẹ̀lú fọ́ọ̀mù ìsàlẹ̀.',
+  'chat.errorRateLimited': 'Ò ń fi ìránṣẹ́ ránṣẹ́ kíákíá jù. Dúró díẹ̀ kí o tún gbìyànjú.',
+  'chat.errorRateLimitedWait': 'Ò ń fi ìránṣẹ́ ránṣẹ́ kíákíá jù. Tún gbìyànjú lẹ́yìn ìṣẹ́jú-àáyá {seconds}.',
+  'chat.errorNetwork': 'Ó dà bí pé o kò sí lórí ayélujára. Ṣàyẹ̀wò ìsopọ̀ rẹ kí o tún gbìyànjú.',
+  'chat.errorModel': 'Àwòṣe náà kò lè dáhùn ìyẹn báyìí. Jọ̀ọ́ tún gbìyànjú.',
+  'chat.errorInvalidRequest': 'A kò lè fi ìránṣẹ́ yẹn ránṣẹ́. Ìránṣẹ́ kò gbọdọ̀ ju lẹ́tà {max} lọ.',
+  'chat.starterRobotics': 'Àwọn iṣẹ́ robotiki wo ló ti kọ́?',
+  'chat.starterHire': 'Ṣé ó wà fún iṣẹ́ tuntun?',
+  'chat.starterLanguage': 'Àwọn iṣẹ́ àkànṣe rẹ̀ wo ló lo {language}?',
+  'chat.starterProject': 'Sọ fún mi nípa {project}.',
+  'chat.starterSkill': 'Báwo ni ìrírí rẹ̀ pẹ̀lú {skill} ṣe tó?'
+};
+
+export default yo;
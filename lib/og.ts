@@ -0,0 +1,15 @@
+// Open Graph images: 1200×630 PNGs made at build time by scripts/og-images.tsx and
+// served from /og. Link previews point at them, and project cards fall back to them
+// when the GitHub preview can't be loaded.
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+const OG_PATH = '/og';
+
+// The homepage image, also used by pages without one of their own
+export const SITE_OG_IMAGE = `${OG_PATH}/site.png`;
+
+export const projectOgImage = (repo: string) => `${OG_PATH}/projects/${repo.toLowerCase()}.png`;
+
+export const postOgImage = (slug: string) => `${OG_PATH}/blog/${slug}.png`;
@@ -0,0 +1,391 @@
+import {
+  CACHE_TTL_MS,
+  GITHUB_SNAPSHOT,
+  GITHUB_USER,
+  GitHubError,
+  fetchRepos,
+  readCachedRepos,
+  snapshotRepo,
+  writeCachedRepos,
+  type GitHubRepo,
+  type RateLimit
+} from './github';
+import projectsConfig from '../data/projects.config';
+import { SITE, SITE_LINKS } from './site';
+import { projectOgImage } from './og';
+import { DEFAULT_LOCALE, LOCALES, createTranslator, type Locale, type Translate } from './i18n';
+
+// Shared portfolio knowledge: the Projects section renders from this module and the AI
+// assistant is grounded in the same data, together with the profile in ./site.
+
+// --- Types ---
+export interface Project {
+  // GitHub repository name, e.g. "robot-arm-controller"
+  repo: string;
+  title: string;
+  category: string;
+  description: string;
+  image: string;
+  // Link preview image: the curated image if there is one, otherwise the generated one
+  shareImage: string;
+  tags: string[];
+  // Every GitHub topic; `tags` is the short list shown on the card
+  topics: string[];
+  link?: string;
+  github?: string;
+  stars?: number;
+  language?: string;
+  // Bytes per language, known when the repo is in the build-time snapshot
+  languages?: Record<string, number>;
+  // ISO timestamp of the last push; formatted for the visitor's locale when shown
+  updatedAt: string;
+  pinned?: boolean;
+  featured?: boolean;
+  order?: number;
+}
+
+export type ProjectSort = 'pinned' | 'stars' | 'updated';
+
+export interface ProjectOverride {
+  pinned?: boolean;
+  order?: number;
+  hidden?: boolean;
+  featured?: boolean;
+  title?: string;
+  description?: string;
+  category?: string;
+  image?: string;
+  tags?: string[];
+}
+
+export interface ProjectsConfig {
+  sort: ProjectSort;
+  // How many cards the Projects section shows
+  limit: number;
+  overrides: Record<string, ProjectOverride>;
+}
+
+export type ProjectsSource = 'network' | 'cache' | 'snapshot';
+
+export interface ProjectsState {
+  projects: Project[];
+  loading: boolean;
+  error: string;
+  source?: ProjectsSource;
+  // When the shown repo list was fetched from GitHub
+  fetchedAt?: number;
+  // True while cached data is on screen and a background refresh is running
+  refreshing: boolean;
+  rateLimit?: RateLimit;
+}
+
+// --- Projects ---
+const repoToProject = (repo: GitHubRepo, override: ProjectOverride = {}): Project => ({
+  repo: repo.name,
+  title: override.title || repo.name.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
+  category: override.category || repo.language || 'Open Source',
+  description: override.description || repo.description || 'An innovative project showcasing technical excellence.',
+  image: override.image || `https://opengraph.githubassets.com/1/${repo.html_url.replace('https://github.com/', '')}`,
+  shareImage: override.image || projectOgImage(repo.name),
+  tags: override.tags || (repo.topics.length > 0 ? repo.topics.slice(0, 4) : [repo.language || 'Code']),
+  topics: repo.topics,
+  link: repo.homepage || repo.html_url,
+  github: repo.html_url,
+  stars: repo.stargazers_count,
+  language: repo.language || undefined,
+  languages: snapshotRepo(repo.name)?.languages,
+  updatedAt: repo.updated_at,
+  pinned: override.pinned,
+  featured: override.featured,
+  order: override.order
+});
+
+// Applies the curated overrides; repos without any description are left out
+export const reposToProjects = (repos: GitHubRepo[]): Project[] =>
+  repos
+    .filter(repo => {
+      const override = projectsConfig.overrides[repo.name];
+      return !override?.hidden && (override?.description || repo.description);
+    })
+    .map(repo => repoToProject(repo, projectsConfig.overrides[repo.name]));
+
+const byStars = (a: Project, b: Project) => (b.stars || 0) - (a.stars || 0);
+const byUpdated = (a: Project, b: Project) => b.updatedAt.localeCompare(a.updatedAt);
+
+// Deterministic ordering; ties fall back to the repo name so the grid never reshuffles
+export const sortProjects = (projects: Project[], mode: ProjectSort = projectsConfig.sort): Project[] => {
+  const byName = (a: Project, b: Project) => a.repo.localeCompare(b.repo);
+  const compare = {
+    stars: (a: Project, b: Project) => byStars(a, b) || byUpdated(a, b) || byName(a, b),
+    updated: (a: Project, b: Project) => byUpdated(a, b) || byName(a, b),
+    pinned: (a: Project, b: Project) =>
+      Number(Boolean(b.pinned)) - Number(Boolean(a.pinned))
+      || (a.order ?? Infinity) - (b.order ?? Infinity)
+      || byUpdated(a, b)
+      || byName(a, b)
+  }[mode];
+  return [...projects].sort(compare);
+};
+
+export const PROJECTS_LIMIT = projectsConfig.limit;
+
+// --- Filtering ---
+export interface ProjectFilters {
+  query: string;
+  language: string;
+  topic: string;
+  sort: ProjectSort;
+}
+
+export const DEFAULT_FILTERS: ProjectFilters = { query: '', language: '', topic: '', sort: projectsConfig.sort };
+
+const SORT_MODES: ProjectSort[] = ['pinned', 'stars', 'updated'];
+
+export const filterProjects = (projects: Project[], { query, language, topic, sort }: ProjectFilters): Project[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const matches = projects.filter(project => {
+    if (language && project.language !== language) return false;
+    if (topic && !project.topics.includes(topic)) return false;
+    const text = `${project.title} ${project.description}`.toLowerCase();
+    return terms.every(term => text.includes(term));
+  });
+  return sortProjects(matches, sort);
+};
+
+// Languages and topics present in the loaded repos, most common first
+export const projectFacets = (projects: Project[]) => {
+  const count = (values: string[]) => {
+    const counts = new Map<string, number>();
+    for (const value of values) counts.set(value, (counts.get(value) || 0) + 1);
+    return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  };
+  return {
+    languages: count(projects.map(project => project.language).filter((language): language is string => Boolean(language))),
+    topics: count(projects.flatMap(project => project.topics))
+  };
+};
+
+// Filters live in the query string (?q=&lang=&topic=&sort=) so a filtered view can be shared
+export const filtersFromSearch = (search: string): ProjectFilters => {
+  const params = new URLSearchParams(search);
+  const sort = params.get('sort') as ProjectSort;
+  return {
+    query: params.get('q') || '',
+    language: params.get('lang') || '',
+    topic: params.get('topic') || '',
+    sort: SORT_MODES.includes(sort) ? sort : DEFAULT_FILTERS.sort
+  };
+};
+
+export const filtersToSearch = (filters: ProjectFilters, search = ''): string => {
+  const params = new URLSearchParams(search);
+  const entries: [string, string][] = [
+    ['q', filters.query],
+    ['lang', filters.language],
+    ['topic', filters.topic],
+    ['sort', filters.sort === DEFAULT_FILTERS.sort ? '' : filters.sort]
+  ];
+  for (const [key, value] of entries) {
+    if (value) params.set(key, value);
+    else params.delete(key);
+  }
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+// Client route of a project's detail view
+export const projectHref = (repo: string) => `/projects/${encodeURIComponent(repo)}`;
+
+// Language colors, roughly GitHub's linguist palette
+const LANGUAGE_COLORS: Record<string, string> = {
+  Python: '#3572A5',
+  'Jupyter Notebook': '#DA5B0B',
+  TypeScript: '#3178c6',
+  JavaScript: '#f1e05a',
+  Dart: '#00B4AB',
+  'C++': '#f34b7d',
+  C: '#555555',
+  Kotlin: '#A97BFF',
+  Java: '#b07219',
+  HTML: '#e34c26',
+  CSS: '#663399',
+  Shell: '#89e051',
+  Dockerfile: '#384d54',
+  CMake: '#DA3434'
+};
+
+const FALLBACK_COLORS = ['#60a5fa', '#a855f7', '#f472b6', '#34d399', '#facc15'];
+
+// Color for a language; unknown ones take a palette color by position
+export const languageColor = (name: string, index = 0) =>
+  LANGUAGE_COLORS[name] || FALLBACK_COLORS[index % FALLBACK_COLORS.length];
+
+// DOM id of a project's card, the target of in-page citations
+export const projectAnchorId = (repo: string) => `project-${repo.toLowerCase()}`;
+
+// "https://github.com/ChristTech/<repo>" -> "<repo>", or null for any other URL
+export const repoFromUrl = (url: string): string | null => {
+  const match = url.match(new RegExp(`^https?://github\\.com/${GITHUB_USER}/([\\w.-]+)/?$`, 'i'));
+  return match ? match[1] : null;
+};
+
+// --- Projects store ---
+const SNAPSHOT_AT = GITHUB_SNAPSHOT.generatedAt ? Date.parse(GITHUB_SNAPSHOT.generatedAt) : undefined;
+
+// Starts from the build-time snapshot when there is one, so the first render (and the
+// pre-rendered HTML) already lists the projects
+const initialProjectsState: ProjectsState = GITHUB_SNAPSHOT.repos.length > 0
+  ? { projects: reposToProjects(GITHUB_SNAPSHOT.repos), loading: false, error: '', refreshing: false, source: 'snapshot', fetchedAt: SNAPSHOT_AT }
+  : { projects: [], loading: true, error: '', refreshing: false };
+
+let projectsState = initialProjectsState;
+const listeners = new Set<() => void>();
+
+const setProjectsState = (patch: Partial<ProjectsState>) => {
+  projectsState = { ...projectsState, ...patch };
+  listeners.forEach(listener => listener());
+};
+
+export const getProjectsState = () => projectsState;
+
+// What pre-rendering saw, for hydration to render first
+export const getServerProjectsState = () => initialProjectsState;
+
+export const subscribeProjects = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Stale-while-revalidate: the freshest local copy (the localStorage cache, else the
+// build-time snapshot) is published immediately, then refreshed from GitHub in the
+// background once it is older than the cache TTL.
+const refreshProjects = async (): Promise<Project[]> => {
+  const cached = readCachedRepos();
+
+  if (cached) {
+    setProjectsState({
+      projects: reposToProjects(cached.repos),
+      loading: false,
+      source: 'cache',
+      fetchedAt: cached.fetchedAt
+    });
+    if (Date.now() - cached.fetchedAt < CACHE_TTL_MS) return projectsState.projects;
+  } else if (GITHUB_SNAPSHOT.repos.length > 0) {
+    setProjectsState({
+      projects: reposToProjects(GITHUB_SNAPSHOT.repos),
+      loading: false,
+      source: 'snapshot',
+      fetchedAt: SNAPSHOT_AT
+    });
+  }
+
+  const hasData = projectsState.projects.length > 0;
+  setProjectsState({ refreshing: hasData });
+  try {
+    const result = await fetchRepos(cached?.etag);
+    const now = Date.now();
+    if (result.status === 'not-modified' && cached) {
+      writeCachedRepos(cached.repos, cached.etag, now);
+      setProjectsState({ source: 'network', fetchedAt: now, rateLimit: result.rateLimit });
+    } else if (result.status === 'modified') {
+      writeCachedRepos(result.repos, result.etag, now);
+      setProjectsState({
+        projects: reposToProjects(result.repos),
+        source: 'network',
+        fetchedAt: now,
+        rateLimit: result.rateLimit,
+        error: ''
+      });
+    }
+  } catch (err) {
+    console.error('GitHub API Error:', err);
+    const rateLimit = err instanceof GitHubError ? err.rateLimit : undefined;
+    if (hasData) {
+      setProjectsState({ rateLimit });
+    } else {
+      setProjectsState({ error: 'Unable to load projects', rateLimit });
+    }
+  } finally {
+    setProjectsState({ loading: false, refreshing: false });
+  }
+
+  return projectsState.projects;
+};
+
+let projectsRequest: Promise<Project[]> | null = null;
+
+// One refresh per page load, shared by every reader
+export const loadProjects = (): Promise<Project[]> => {
+  if (!projectsRequest) projectsRequest = refreshProjects();
+  return projectsRequest;
+};
+
+// --- Assistant grounding ---
+const ROBOTICS_KEYWORDS = ['robot', 'ros', 'arduino', 'raspberry', 'iot', 'drone', 'embedded'];
+
+// Starter questions for the chat panel, picked from what the portfolio actually contains
+export const buildStarterQuestions = (projects: Project[], max = 4, t: Translate = createTranslator(DEFAULT_LOCALE)): string[] => {
+  const questions: string[] = [];
+  const text = (project: Project) => [project.repo, project.description, ...project.tags].join(' ').toLowerCase();
+
+  if (projects.some(project => ROBOTICS_KEYWORDS.some(keyword => text(project).includes(keyword)))) {
+    questions.push(t('chat.starterRobotics'));
+  }
+  questions.push(t('chat.starterHire'));
+
+  // The language most of the repos are written in
+  const languageCounts = new Map<string, number>();
+  for (const project of projects) {
+    if (project.language) languageCounts.set(project.language, (languageCounts.get(project.language) || 0) + 1);
+  }
+  const [topLanguage] = [...languageCounts].sort((a, b) => b[1] - a[1])[0] || [];
+  if (topLanguage) questions.push(t('chat.starterLanguage', { language: topLanguage }));
+
+  const [mostStarred] = sortProjects(projects, 'stars');
+  if (mostStarred) questions.push(t('chat.starterProject', { project: mostStarred.title }));
+
+  questions.push(t('chat.starterSkill', { skill: SITE.skills[0].items[0] }));
+
+  return questions.slice(0, max);
+};
+
+const describeProject = (project: Project) => {
+  const details = [
+    project.language && `language: ${project.language}`,
+    project.topics.length > 0 && `topics: ${project.topics.join(', ')}`,
+    `stars: ${project.stars ?? 0}`,
+    `updated: ${project.updatedAt.slice(0, 10)}`
+  ].filter(Boolean).join('; ');
+  return `- ${project.title} (${project.github}) — ${project.description} [${details}]`;
+};
+
+// Visitors who picked another language get replies in it, unless they write in a different one
+const describeLanguage = (locale: Locale) =>
+  locale === DEFAULT_LOCALE
+    ? ''
+    : `\nThe visitor is browsing the site in ${LOCALES[locale].englishName}. Reply in ${LOCALES[locale].englishName} unless they write to you in another language.`;
+
+export const buildSystemInstruction = (projects: Project[], locale: Locale = DEFAULT_LOCALE): string => {
+  const skills = SITE.skills.map(group => `- ${group.title}: ${group.items.join(', ')}`).join('\n');
+  const repos = projects.length > 0
+    ? projects.map(describeProject).join('\n')
+    : '- (The repository list could not be loaded. Point visitors to ' + SITE_LINKS.github + '.)';
+
+  return `You are an AI assistant for ${SITE.name}, a ${SITE.role}.
+Bio: ${SITE.summary} ${SITE.about.paragraphs.join(' ')}
+Location: ${SITE.location}.
+Focus: ${SITE.focus}
+Contact: ${[SITE.contact.email, SITE.contact.linkedin && `LinkedIn ${SITE.contact.linkedin}`].filter(Boolean).join(', ')}.
+
+Skills:
+${skills}
+
+Public GitHub repositories:
+${repos}
+
+When asked about projects, answer only from the repository list above; do not invent repositories.
+Whenever you mention a repository, cite it as a markdown link to its GitHub URL, e.g. [Repo Name](https://github.com/...).
+If nothing in the list matches, say so and point to ${SITE_LINKS.github}.
+Personality: Technical, innovative, passionate about AI and robotics.
+Be concise, technical yet friendly, and helpful. Always respond as ${SITE.name}'s assistant.${describeLanguage(locale)}`;
+};
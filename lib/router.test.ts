@@ -0,0 +1,80 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { isRouterHref, matchRoute, restoreScroll, safeDecode, type RouterLocation } from './router';
+
+const location = (patch: Partial<RouterLocation>): RouterLocation => ({
+  pathname: '/',
+  search: '',
+  hash: '',
+  key: 'entry',
+  action: 'push',
+  ...patch
+});
+
+describe('matchRoute', () => {
+  it('matches pages, with or without a trailing slash', () => {
+    expect(matchRoute('/')).toEqual({ name: 'home' });
+    expect(matchRoute('/projects/')).toEqual({ name: 'projects' });
+    expect(matchRoute('/contact')).toEqual({ name: 'contact' });
+    expect(matchRoute('/nope')).toEqual({ name: 'not-found' });
+  });
+
+  it('decodes slugs', () => {
+    expect(matchRoute('/projects/robot%20arm')).toEqual({ name: 'project', slug: 'robot arm' });
+    expect(matchRoute('/blog/hello-world/')).toEqual({ name: 'post', slug: 'hello-world' });
+  });
+
+  it('treats a malformed escape as not found instead of throwing', () => {
+    expect(matchRoute('/projects/%E0')).toEqual({ name: 'not-found' });
+    expect(matchRoute('/blog/100%')).toEqual({ name: 'not-found' });
+  });
+});
+
+describe('safeDecode', () => {
+  it('returns null for malformed escapes', () => {
+    expect(safeDecode('a%20b')).toBe('a b');
+    expect(safeDecode('%E0')).toBeNull();
+  });
+});
+
+describe('isRouterHref', () => {
+  it('keeps same-origin pages in the app and leaves files and other sites alone', () => {
+    expect(isRouterHref('/projects/robot-arm')).toBe(true);
+    expect(isRouterHref('/feed.xml')).toBe(false);
+    expect(isRouterHref('//example.com/')).toBe(false);
+    expect(isRouterHref('https://example.com/')).toBe(false);
+  });
+});
+
+describe('restoreScroll', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('scrolls to the section in the hash', () => {
+    const scrollIntoView = vi.fn();
+    document.body.innerHTML = '<section id="contact"></section>';
+    Object.assign(document.getElementById('contact')!, { scrollIntoView });
+
+    restoreScroll(location({ hash: '#contact' }));
+
+    expect(scrollIntoView).toHaveBeenCalled();
+  });
+
+  it('looks up a hash that is not a valid escape as it is', () => {
+    const scrollIntoView = vi.fn();
+    document.body.innerHTML = '<section id="100%"></section>';
+    Object.assign(document.getElementById('100%')!, { scrollIntoView });
+
+    expect(() => restoreScroll(location({ hash: '#100%' }))).not.toThrow();
+    expect(scrollIntoView).toHaveBeenCalled();
+  });
+
+  it('starts a new page at the top', () => {
+    const scrollTo = vi.spyOn(window, 'scrollTo').mockImplementation(() => {});
+
+    restoreScroll(location({ hash: '#100%' }));
+
+    expect(scrollTo).toHaveBeenCalledWith(0, 0);
+  });
+});
@@ -0,0 +1,197 @@
+// A small History API router. Pages live at real paths; `#section` fragments still scroll
+// to sections on the page, and links from the old hash routes (`#/projects/<repo>`) are
+// redirected to their path.
+
+// --- Types ---
+export type Route =
+  | { name: 'home' }
+  | { name: 'projects' }
+  | { name: 'project'; slug: string }
+  | { name: 'blog' }
+  | { name: 'post'; slug: string }
+  | { name: 'contact' }
+  | { name: 'stats' }
+  | { name: 'not-found' };
+
+// How the current entry was reached, which decides where the page scrolls to
+export type NavigationAction = 'load' | 'push' | 'replace' | 'pop';
+
+export interface RouterLocation {
+  pathname: string;
+  search: string;
+  hash: string;
+  // Identifies the history entry, so its scroll position can be restored on back/forward
+  key: string;
+  action: NavigationAction;
+}
+
+interface HistoryState {
+  key?: string;
+}
+
+// --- Routes ---
+// decodeURIComponent for text taken from the URL: null instead of a URIError when the
+// visitor (or a bot) sends a malformed escape such as `%E0`
+export const safeDecode = (text: string): string | null => {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return null;
+  }
+};
+
+// A page named by the first capture; a slug that can't be decoded names no page
+const slugRoute = (name: 'project' | 'post') => (match: RegExpMatchArray): Route | null => {
+  const slug = safeDecode(match[1]);
+  return slug === null ? null : { name, slug };
+};
+
+const ROUTES: { pattern: RegExp; route: (match: RegExpMatchArray) => Route | null }[] = [
+  { pattern: /^\/$/, route: () => ({ name: 'home' }) },
+  { pattern: /^\/projects\/?$/, route: () => ({ name: 'projects' }) },
+  { pattern: /^\/projects\/([^/]+)\/?$/, route: slugRoute('project') },
+  { pattern: /^\/blog\/?$/, route: () => ({ name: 'blog' }) },
+  { pattern: /^\/blog\/([^/]+)\/?$/, route: slugRoute('post') },
+  { pattern: /^\/contact\/?$/, route: () => ({ name: 'contact' }) },
+  { pattern: /^\/stats\/?$/, route: () => ({ name: 'stats' }) }
+];
+
+// Never throws: anything unknown or malformed is 'not-found'
+export const matchRoute = (pathname: string): Route => {
+  for (const { pattern, route } of ROUTES) {
+    const match = pathname.match(pattern);
+    if (match) return route(match) ?? { name: 'not-found' };
+  }
+  return { name: 'not-found' };
+};
+
+const LEGACY_HASH_ROUTE = /^#\/(projects\/[^/?#]+)\/?$/;
+
+// --- Scroll positions ---
+// Tracked per history entry as the page scrolls, and kept in sessionStorage across reloads
+const SCROLL_KEY = 'christtech.router.scroll';
+
+let scrollPositions: Record<string, number> = {};
+
+const loadScrollPositions = () => {
+  try {
+    scrollPositions = JSON.parse(sessionStorage.getItem(SCROLL_KEY) || '{}');
+  } catch {
+    scrollPositions = {};
+  }
+};
+
+const persistScrollPositions = () => {
+  try {
+    sessionStorage.setItem(SCROLL_KEY, JSON.stringify(scrollPositions));
+  } catch {
+    // Storage unavailable: a reload starts at the top instead
+  }
+};
+
+// --- Store ---
+const createKey = () => Math.random().toString(36).slice(2, 10);
+
+const readLocation = (action: NavigationAction): RouterLocation => {
+  const { pathname, search, hash } = window.location;
+  let key = (window.history.state as HistoryState | null)?.key;
+  if (!key) {
+    // Entries created by the browser itself (first load, a plain `#section` link) have no key yet
+    key = createKey();
+    window.history.replaceState({ ...window.history.state, key }, '');
+  }
+  return { pathname, search, hash, key, action };
+};
+
+let location: RouterLocation | null = null;
+const listeners = new Set<() => void>();
+
+const setLocation = (next: RouterLocation) => {
+  location = next;
+  listeners.forEach(listener => listener());
+};
+
+export const getLocation = (): RouterLocation => {
+  if (!location) location = typeof window === 'undefined' ? getServerLocation() : readLocation('load');
+  return location;
+};
+
+// --- Pre-rendering ---
+// The HTML for a page is written once per path (scripts/prerender.tsx), so it never has
+// a query string or fragment. Hydration renders this location first, to match that HTML,
+// and then the real one.
+let serverLocation: RouterLocation | null = null;
+
+// Sets the page being pre-rendered; there is no window to read it from
+export const setServerLocation = (pathname: string) => {
+  serverLocation = { pathname, search: '', hash: '', key: 'server', action: 'load' };
+  location = null;
+};
+
+export const getServerLocation = (): RouterLocation => {
+  if (!serverLocation) {
+    const { pathname, key } = typeof window === 'undefined' ? { pathname: '/', key: 'server' } : getLocation();
+    serverLocation = { pathname, search: '', hash: '', key, action: 'load' };
+  }
+  return serverLocation;
+};
+
+export const subscribeLocation = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const navigate = (to: string, { replace = false } = {}) => {
+  const current = getLocation();
+  const state: HistoryState = { key: replace ? current.key : createKey() };
+  if (replace) window.history.replaceState(state, '', to);
+  else window.history.pushState(state, '', to);
+  setLocation(readLocation(replace ? 'replace' : 'push'));
+};
+
+// Same-origin paths are handled by the router; everything else is a normal link
+export const isRouterHref = (href: string) => {
+  if (!href.startsWith('/') || href.startsWith('//')) return false;
+  return !/\.[a-z\d]+$/i.test(href.split(/[?#]/)[0]);
+};
+
+let started = false;
+
+// Listens for back/forward and takes over scroll restoration. Safe to call more than once.
+export const startRouter = () => {
+  if (started || typeof window === 'undefined') return;
+  started = true;
+
+  window.history.scrollRestoration = 'manual';
+  loadScrollPositions();
+
+  const legacy = window.location.hash.match(LEGACY_HASH_ROUTE);
+  if (legacy) navigate(`/${legacy[1]}`, { replace: true });
+
+  window.addEventListener('popstate', () => setLocation(readLocation('pop')));
+  window.addEventListener('scroll', () => {
+    scrollPositions[getLocation().key] = window.scrollY;
+  }, { passive: true });
+  // Reloads come back as a 'load' of the same entry
+  window.addEventListener('pagehide', persistScrollPositions);
+};
+
+// Called once the page for `current` has rendered: back/forward and reloads return to
+// where the visitor was, a `#section` scrolls to that section, anything else starts at the top.
+export const restoreScroll = (current: RouterLocation) => {
+  const saved = scrollPositions[current.key];
+  if ((current.action === 'pop' || current.action === 'load') && saved !== undefined) {
+    window.scrollTo(0, saved);
+    return;
+  }
+
+  const id = current.hash.slice(1);
+  const target = id && document.getElementById(safeDecode(id) ?? id);
+  if (target) {
+    target.scrollIntoView();
+    return;
+  }
+  if (current.action !== 'load') window.scrollTo(0, 0);
+};
@@ -0,0 +1,182 @@
+import { BLOG_PATH, postHref, type BlogPost } from './blog';
+import { SITE_OG_IMAGE, postOgImage } from './og';
+import { projectHref, type Project } from './portfolio';
+import type { Route } from './router';
+import { SITE, SITE_LINKS } from './site';
+
+// Per-page <head> content: title, description, the image for link previews and JSON-LD
+// structured data. scripts/prerender.tsx writes it into every pre-rendered page.
+
+// --- Types ---
+export interface PageMeta {
+  title: string;
+  description: string;
+  // Site path of the page
+  path: string;
+  // Preview image, a site path or URL
+  image: string;
+  type: 'website' | 'profile' | 'article';
+  // Kept out of search results (the 404 page)
+  noindex?: boolean;
+  jsonLd: Record<string, unknown>[];
+}
+
+export interface PageData {
+  projects: Project[];
+  posts: BlogPost[];
+}
+
+// --- URLs ---
+// Site paths made absolute when the site's URL is known; left as they are otherwise
+export const absoluteUrl = (url: string, siteUrl?: string) => (siteUrl && url.startsWith('/') ? `${siteUrl}${url}` : url);
+
+// A post's preview image: its cover, otherwise the generated one
+const postImage = (post: BlogPost) => post.cover || postOgImage(post.slug);
+
+// --- JSON-LD ---
+const CONTEXT = 'https://schema.org';
+
+const person = (siteUrl?: string) => ({
+  '@type': 'Person',
+  name: SITE.name,
+  url: absoluteUrl('/', siteUrl)
+});
+
+export const personJsonLd = (siteUrl?: string): Record<string, unknown> => ({
+  '@context': CONTEXT,
+  ...person(siteUrl),
+  jobTitle: SITE.role,
+  description: SITE.summary,
+  image: absoluteUrl(SITE.about.photo, siteUrl),
+  email: SITE_LINKS.email,
+  knowsAbout: SITE.skills.flatMap(group => group.items),
+  sameAs: [SITE_LINKS.github, SITE_LINKS.linkedin].filter(Boolean)
+});
+
+const projectWork = (project: Project, siteUrl?: string) => ({
+  '@type': 'CreativeWork',
+  name: project.title,
+  description: project.description,
+  url: absoluteUrl(projectHref(project.repo), siteUrl),
+  image: absoluteUrl(project.shareImage, siteUrl)
+});
+
+export const projectJsonLd = (project: Project, siteUrl?: string): Record<string, unknown> => ({
+  '@context': CONTEXT,
+  ...projectWork(project, siteUrl),
+  genre: project.category,
+  keywords: project.topics.join(', ') || undefined,
+  dateModified: project.updatedAt,
+  sameAs: project.github,
+  author: person(siteUrl)
+});
+
+export const postJsonLd = (post: BlogPost, siteUrl?: string): Record<string, unknown> => ({
+  '@context': CONTEXT,
+  '@type': 'BlogPosting',
+  headline: post.title,
+  description: post.summary,
+  url: absoluteUrl(postHref(post.slug), siteUrl),
+  image: absoluteUrl(postImage(post), siteUrl),
+  datePublished: post.date,
+  keywords: post.tags.join(', ') || undefined,
+  author: person(siteUrl)
+});
+
+// --- Pages ---
+const NOT_FOUND: Omit<PageMeta, 'path'> = {
+  title: `Page not found | ${SITE.name}`,
+  description: SITE.summary,
+  image: SITE_OG_IMAGE,
+  type: 'website',
+  noindex: true,
+  jsonLd: []
+};
+
+// The <head> content for a page. `path` is the page's own path, kept as given so links
+// match the pre-rendered file.
+export const pageMeta = (route: Route, path: string, { projects, posts }: PageData, siteUrl?: string): PageMeta => {
+  const base = { path, image: SITE_OG_IMAGE };
+  switch (route.name) {
+    case 'home':
+      return {
+        ...base,
+        title: `${SITE.name} | ${SITE.role}`,
+        description: SITE.hero.intro,
+        type: 'profile',
+        jsonLd: [personJsonLd(siteUrl)]
+      };
+    case 'projects':
+      return {
+        ...base,
+        title: `Projects | ${SITE.name}`,
+        description: `Projects by ${SITE.name}, ${SITE.role}. ${SITE.focus}`,
+        type: 'website',
+        jsonLd: [{
+          '@context': CONTEXT,
+          '@type': 'CollectionPage',
+          name: `Projects | ${SITE.name}`,
+          url: absoluteUrl(path, siteUrl),
+          author: person(siteUrl),
+          hasPart: projects.map(project => projectWork(project, siteUrl))
+        }]
+      };
+    case 'project': {
+      const project = projects.find(p => p.repo.toLowerCase() === route.slug.toLowerCase());
+      if (!project) return { ...NOT_FOUND, path };
+      return {
+        ...base,
+        title: `${project.title} | ${SITE.name}`,
+        description: project.description,
+        image: project.shareImage,
+        type: 'article',
+        jsonLd: [projectJsonLd(project, siteUrl)]
+      };
+    }
+    case 'blog':
+      return {
+        ...base,
+        title: `Blog | ${SITE.name}`,
+        description: `Notes and build logs from ${SITE.name}, ${SITE.role}.`,
+        type: 'website',
+        jsonLd: [{
+          '@context': CONTEXT,
+          '@type': 'Blog',
+          name: `${SITE.name} devlog`,
+          url: absoluteUrl(BLOG_PATH, siteUrl),
+          author: person(siteUrl)
+        }]
+      };
+    case 'post': {
+      const post = posts.find(p => p.slug === route.slug);
+      if (!post) return { ...NOT_FOUND, path };
+      return {
+        ...base,
+        title: `${post.title} | ${SITE.name}`,
+        description: post.summary,
+        image: postImage(post),
+        type: 'article',
+        jsonLd: [postJsonLd(post, siteUrl)]
+      };
+    }
+    case 'contact':
+      return {
+        ...base,
+        title: `Contact | ${SITE.name}`,
+        description: SITE.contact.intro,
+        type: 'website',
+        jsonLd: [personJsonLd(siteUrl)]
+      };
+    case 'stats':
+      return {
+        ...base,
+        title: `Stats | ${SITE.name}`,
+        description: SITE.summary,
+        type: 'website',
+        noindex: true,
+        jsonLd: []
+      };
+    case 'not-found':
+      return { ...NOT_FOUND, path };
+  }
+};
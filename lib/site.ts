@@ -0,0 +1,168 @@
+import siteConfig from '../data/site.config';
+
+// Profile content for the whole site: hero, about, skills, contact and footer all read
+// from data/site.config.ts. The config is typed here and checked against SITE_CONFIG_SCHEMA
+// before every build (scripts/check-site-config.ts), so a fork only edits data.
+
+// --- Types ---
+export interface SkillGroup {
+  title: string;
+  icon: 'cpu' | 'zap' | 'layers';
+  iconColor: string;
+  items: string[];
+}
+
+export interface SiteStat {
+  value: string;
+  label: string;
+}
+
+export interface SiteConfig {
+  name: string;
+  // Navbar/footer wordmark: `highlight` gets the gradient, `rest` follows it
+  logo: { highlight: string; rest: string };
+  role: string;
+  tagline: string;
+  location: string;
+  summary: string;
+  focus: string;
+  // Whose public repositories the Projects section shows
+  githubUser: string;
+  hero: {
+    // Badge above the headline; leave out when not taking work
+    availability?: string;
+    headline: { before: string; highlight: string; after: string };
+    intro: string;
+    card: { focus: string; status: string };
+  };
+  about: {
+    paragraphs: string[];
+    stats: SiteStat[];
+    photo: string;
+  };
+  skills: SkillGroup[];
+  contact: {
+    email: string;
+    // International number, digits only (used for wa.me links)
+    whatsapp?: string;
+    linkedin?: string;
+    intro: string;
+  };
+}
+
+// --- Schema ---
+type FieldSchema =
+  | { type: 'string'; optional?: boolean; pattern?: RegExp; hint?: string }
+  | { type: 'enum'; values: readonly string[]; optional?: boolean }
+  | { type: 'list'; items: FieldSchema; minItems?: number; optional?: boolean }
+  | { type: 'object'; fields: Record<string, FieldSchema>; optional?: boolean };
+
+const text = { type: 'string', pattern: /\S/, hint: 'non-empty text' } as const;
+const url = { type: 'string', pattern: /^https?:\/\/\S+$/, hint: 'an http(s) URL' } as const;
+
+export const SITE_CONFIG_SCHEMA: FieldSchema = {
+  type: 'object',
+  fields: {
+    name: text,
+    logo: { type: 'object', fields: { highlight: text, rest: { type: 'string' } } },
+    role: text,
+    tagline: text,
+    location: text,
+    summary: text,
+    focus: text,
+    githubUser: { type: 'string', pattern: /^[a-z\d](?:[a-z\d-]{0,38})$/i, hint: 'a GitHub username' },
+    hero: {
+      type: 'object',
+      fields: {
+        availability: { ...text, optional: true },
+        headline: { type: 'object', fields: { before: text, highlight: text, after: text } },
+        intro: text,
+        card: { type: 'object', fields: { focus: text, status: text } }
+      }
+    },
+    about: {
+      type: 'object',
+      fields: {
+        paragraphs: { type: 'list', items: text, minItems: 1 },
+        stats: { type: 'list', items: { type: 'object', fields: { value: text, label: text } } },
+        photo: { type: 'string', pattern: /^(\/|https?:\/\/)\S+$/, hint: 'a site path or URL' }
+      }
+    },
+    skills: {
+      type: 'list',
+      minItems: 1,
+      items: {
+        type: 'object',
+        fields: {
+          title: text,
+          icon: { type: 'enum', values: ['cpu', 'zap', 'layers'] },
+          iconColor: { type: 'string', pattern: /^text-[a-z]+-\d{2,3}$/, hint: 'a Tailwind text color, e.g. text-blue-400' },
+          items: { type: 'list', items: text, minItems: 1 }
+        }
+      }
+    },
+    contact: {
+      type: 'object',
+      fields: {
+        email: { type: 'string', pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/, hint: 'an email address' },
+        whatsapp: { type: 'string', pattern: /^\d{7,15}$/, hint: 'digits only, with country code', optional: true },
+        linkedin: { ...url, optional: true },
+        intro: text
+      }
+    }
+  }
+};
+
+const validateField = (schema: FieldSchema, value: unknown, path: string, errors: string[]) => {
+  if (value === undefined) {
+    if (!schema.optional) errors.push(`${path} is required`);
+    return;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') errors.push(`${path} must be a string`);
+      else if (schema.pattern && !schema.pattern.test(value)) errors.push(`${path} must be ${schema.hint || `like ${schema.pattern}`}`);
+      return;
+    case 'enum':
+      if (!schema.values.includes(value as string)) errors.push(`${path} must be one of ${schema.values.join(', ')}`);
+      return;
+    case 'list':
+      if (!Array.isArray(value)) {
+        errors.push(`${path} must be a list`);
+        return;
+      }
+      if (value.length < (schema.minItems || 0)) errors.push(`${path} needs at least ${schema.minItems} item(s)`);
+      value.forEach((item, index) => validateField(schema.items, item, `${path}[${index}]`, errors));
+      return;
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      Object.entries(schema.fields).forEach(([key, field]) => validateField(field, record[key], `${path}.${key}`, errors));
+      // Catches typos such as `paragraph:` that would otherwise be silently ignored
+      Object.keys(record)
+        .filter(key => !(key in schema.fields))
+        .forEach(key => errors.push(`${path}.${key} is not a known setting`));
+    }
+  }
+};
+
+// Every problem with the config, or an empty list when it is valid
+export const validateSiteConfig = (value: unknown): string[] => {
+  const errors: string[] = [];
+  validateField(SITE_CONFIG_SCHEMA, value, 'site', errors);
+  return errors;
+};
+
+// --- Data ---
+export const SITE: SiteConfig = siteConfig;
+
+export const SITE_LINKS = {
+  github: `https://github.com/${SITE.githubUser}`,
+  linkedin: SITE.contact.linkedin,
+  email: `mailto:${SITE.contact.email}`,
+  whatsapp: SITE.contact.whatsapp ? `https://wa.me/${SITE.contact.whatsapp}` : undefined
+};
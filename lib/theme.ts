@@ -0,0 +1,93 @@
+import { useSyncExternalStore } from 'react';
+
+// Light/dark theme. The palette lives in styles.css as CSS variables keyed off
+// <html data-theme>; this module only decides which one applies. The inline script in
+// index.html runs the same decision before first paint, so keep the two in sync.
+
+// --- Types ---
+export type ThemePreference = 'system' | 'light' | 'dark';
+
+export type Theme = 'light' | 'dark';
+
+// --- Config ---
+const STORAGE_KEY = 'christtech.theme';
+
+export const THEME_PREFERENCES: ThemePreference[] = ['system', 'light', 'dark'];
+
+// <meta name="theme-color"> for each theme, matching --bg-page
+const THEME_COLORS: Record<Theme, string> = { dark: '#020617', light: '#f8fafc' };
+
+const isThemePreference = (value: unknown): value is ThemePreference =>
+  THEME_PREFERENCES.includes(value as ThemePreference);
+
+const systemQuery = () =>
+  typeof window !== 'undefined' && window.matchMedia ? window.matchMedia('(prefers-color-scheme: light)') : null;
+
+export const resolveTheme = (preference: ThemePreference): Theme => {
+  if (preference !== 'system') return preference;
+  return systemQuery()?.matches ? 'light' : 'dark';
+};
+
+const applyTheme = (theme: Theme) => {
+  if (typeof document === 'undefined') return;
+  document.documentElement.dataset.theme = theme;
+  document.querySelector('meta[name="theme-color"]')?.setAttribute('content', THEME_COLORS[theme]);
+};
+
+// --- Store ---
+const readPreference = (): ThemePreference => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isThemePreference(stored) ? stored : 'system';
+  } catch {
+    return 'system';
+  }
+};
+
+let preference: ThemePreference | null = null;
+const listeners = new Set<() => void>();
+
+export const getThemePreference = (): ThemePreference => {
+  if (!preference) {
+    if (typeof window === 'undefined') return 'system';
+    preference = readPreference();
+  }
+  return preference;
+};
+
+export const setThemePreference = (next: ThemePreference) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, next);
+  } catch {
+    // Storage unavailable: the choice lasts until the page is reloaded
+  }
+  preference = next;
+  applyTheme(resolveTheme(next));
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeTheme = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+let started = false;
+
+// Follows OS theme changes while the preference is 'system'. Safe to call more than once.
+export const startTheme = () => {
+  if (started || typeof window === 'undefined') return;
+  started = true;
+
+  applyTheme(resolveTheme(getThemePreference()));
+  systemQuery()?.addEventListener('change', () => {
+    if (getThemePreference() === 'system') applyTheme(resolveTheme('system'));
+  });
+};
+
+// --- Hook ---
+export const useTheme = () => {
+  const current = useSyncExternalStore(subscribeTheme, getThemePreference, () => 'system' as ThemePreference);
+  return { preference: current, setPreference: setThemePreference };
+};
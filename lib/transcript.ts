@@ -0,0 +1,89 @@
+import { isMessage, type Message } from './chat';
+import { SITE } from './site';
+
+// Chat transcripts saved in localStorage so a returning visitor keeps the conversation.
+
+// --- Types ---
+interface StoredTranscript {
+  version: typeof TRANSCRIPT_VERSION;
+  savedAt: number;
+  messages: Message[];
+}
+
+export type TranscriptFormat = 'markdown' | 'json';
+
+// --- Config ---
+const STORAGE_KEY = 'christtech.chat.transcript';
+
+// Bump when the stored shape changes; older transcripts are then discarded
+const TRANSCRIPT_VERSION = 1;
+
+// Transcripts untouched for a week are treated as a new visit
+const TRANSCRIPT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// --- Storage ---
+// Returns the saved conversation, or null when there is none or it is stale,
+// from an older schema or unreadable (those are removed).
+export const loadTranscript = (now = Date.now()): Message[] | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+
+    const data: StoredTranscript = JSON.parse(raw);
+    const valid = data?.version === TRANSCRIPT_VERSION
+      && typeof data.savedAt === 'number'
+      && now - data.savedAt < TRANSCRIPT_TTL_MS
+      && Array.isArray(data.messages)
+      && data.messages.length > 0
+      && data.messages.every(isMessage);
+
+    if (!valid) {
+      localStorage.removeItem(STORAGE_KEY);
+      return null;
+    }
+    return data.messages;
+  } catch {
+    return null;
+  }
+};
+
+export const saveTranscript = (messages: Message[], now = Date.now()) => {
+  const data: StoredTranscript = { version: TRANSCRIPT_VERSION, savedAt: now, messages };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (error) {
+    // Private mode or a full quota: the chat still works, it just won't survive a reload
+    console.warn('Could not save chat transcript:', error);
+  }
+};
+
+export const clearTranscript = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage unavailable, nothing to clear
+  }
+};
+
+// --- Export ---
+export const formatTranscript = (messages: Message[], format: TranscriptFormat, exportedAt = new Date()): string => {
+  if (format === 'json') {
+    return JSON.stringify({ exportedAt: exportedAt.toISOString(), messages }, null, 2);
+  }
+
+  const turns = messages.map(msg => `**${msg.role === 'user' ? 'You' : 'Assistant'}:**\n\n${msg.text}`);
+  const header = `# ${SITE.name} AI Assistant transcript\n\n_Exported ${exportedAt.toLocaleString()}_`;
+  return [header, ...turns].join('\n\n---\n\n') + '\n';
+};
+
+export const downloadTranscript = (messages: Message[], format: TranscriptFormat) => {
+  const blob = new Blob([formatTranscript(messages, format)], {
+    type: format === 'json' ? 'application/json' : 'text/markdown'
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `christtech-chat-${new Date().toISOString().slice(0, 10)}.${format === 'json' ? 'json' : 'md'}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,215 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { mkdir, readFile, readdir, writeFile } from 'fs/promises';
+import path from 'path';
+import Markdown from '../components/Markdown';
+import {
+  BLOG_PATH,
+  FEED_PATH,
+  postHref,
+  readingMinutes,
+  resolvePostUrl,
+  type BlogIndex,
+  type BlogPost,
+  type PostFrontmatter
+} from '../lib/blog';
+import { GITHUB_USER } from '../lib/github';
+import { SITE } from '../lib/site';
+
+// Compiles content/blog/*.md(x) into data/blog.json and writes an Atom feed to
+// public/feed.xml. Posts start with a frontmatter block:
+//
+//   ---
+//   title: Tuning PID gains on a 4-DOF arm
+//   date: 2025-02-14
+//   tags: [robotics, ros]
+//   cover: /blog/arm.jpg
+//   projects: [robot-arm]
+//   draft: false
+//   ---
+//
+//   npm run blog                        published posts only
+//   npm run blog -- --drafts            include drafts (for local writing)
+//   npm run blog -- --content <dir>     read posts from somewhere else
+//   npm run blog -- --out <dir>         write blog.json somewhere other than data/
+//   SITE_URL=https://...                absolute links in the feed; without it they are
+//                                       relative to the site, which readers resolve
+//                                       against the feed's own URL
+//
+// `.mdx` files are read as Markdown: their import/export lines are dropped and JSX is not run.
+
+// --- Frontmatter ---
+class PostError extends Error {
+  constructor(file: string, message: string) {
+    super(`${file}: ${message}`);
+    this.name = 'PostError';
+  }
+}
+
+const parseValue = (raw: string): string | boolean | string[] => {
+  const value = raw.trim();
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return value.slice(1, -1).split(',').map(item => unquote(item.trim())).filter(Boolean);
+  }
+  return unquote(value);
+};
+
+const unquote = (value: string) => value.replace(/^(['"])(.*)\1$/, '$2');
+
+const splitFrontmatter = (file: string, source: string) => {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) throw new PostError(file, 'missing frontmatter block');
+
+  const data: Record<string, string | boolean | string[]> = {};
+  match[1].split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim() || line.trim().startsWith('#')) return;
+    const field = line.match(/^([a-zA-Z]+):(.*)$/);
+    if (!field) throw new PostError(file, `frontmatter line ${index + 1} is not "key: value"`);
+    data[field[1]] = parseValue(field[2]);
+  });
+  return { data, body: source.slice(match[0].length) };
+};
+
+const validateFrontmatter = (file: string, data: Record<string, unknown>): PostFrontmatter => {
+  const { title, date, tags = [], cover, draft = false, summary, projects = [] } = data;
+  if (typeof title !== 'string' || !title) throw new PostError(file, '`title` is required');
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+    throw new PostError(file, '`date` must be a YYYY-MM-DD date');
+  }
+  if (!Array.isArray(tags)) throw new PostError(file, '`tags` must be a list, e.g. [ml, robotics]');
+  if (!Array.isArray(projects)) throw new PostError(file, '`projects` must be a list of repo names');
+  if (cover !== undefined && typeof cover !== 'string') throw new PostError(file, '`cover` must be a URL');
+  if (summary !== undefined && typeof summary !== 'string') throw new PostError(file, '`summary` must be text');
+  if (typeof draft !== 'boolean') throw new PostError(file, '`draft` must be true or false');
+  return {
+    title,
+    date,
+    tags: tags.map(tag => String(tag).toLowerCase()),
+    cover: cover as string | undefined,
+    draft,
+    summary: summary as string | undefined,
+    projects: projects.map(String)
+  };
+};
+
+// Drops MDX import/export statements, leaving fenced code alone
+const stripMdx = (body: string) => {
+  let fenced = false;
+  return body
+    .split('\n')
+    .filter(line => {
+      if (/^\s*(```|~~~)/.test(line)) fenced = !fenced;
+      return fenced || !/^(import|export)\s/.test(line);
+    })
+    .join('\n');
+};
+
+// First paragraph as plain text, for posts without a `summary`
+const firstParagraph = (body: string) => {
+  const paragraph = body
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .find(block => block && !/^(#|```|~~~|!\[|<|>|[-*] |\d+\. )/.test(block)) || '';
+  const text = paragraph
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`]/g, '')
+    .replace(/\s+/g, ' ');
+  return text.length > 200 ? `${text.slice(0, 197).trimEnd()}…` : text;
+};
+
+const readPost = async (dir: string, file: string): Promise<BlogPost & { draft: boolean }> => {
+  const source = await readFile(path.join(dir, file), 'utf8');
+  const { data, body: raw } = splitFrontmatter(file, source);
+  const meta = validateFrontmatter(file, data);
+  const body = file.endsWith('.mdx') ? stripMdx(raw) : raw;
+
+  return {
+    slug: file.replace(/\.mdx?$/, ''),
+    title: meta.title,
+    date: meta.date,
+    tags: meta.tags,
+    cover: meta.cover,
+    summary: meta.summary || firstParagraph(body),
+    projects: meta.projects || [],
+    readingMinutes: readingMinutes(body),
+    body: body.trim() + '\n',
+    draft: Boolean(meta.draft)
+  };
+};
+
+// --- Feed ---
+const escapeXml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' })[char]!);
+
+// `siteUrl` is '' when SITE_URL isn't set: links then stay root-relative, and ids, which
+// Atom requires to be absolute, become URNs
+const buildFeed = (posts: BlogPost[], siteUrl: string, updatedAt: Date) => {
+  const absolute = (url: string) => (url.startsWith('/') ? `${siteUrl}${url}` : url);
+  const id = (pathname: string) => (siteUrl ? `${siteUrl}${pathname}` : `urn:${GITHUB_USER.toLowerCase()}:site${pathname}`);
+  const entries = posts.map(post => {
+    const url = absolute(postHref(post.slug));
+    // Feed readers don't know the site's routes, so project links are made absolute too
+    const html = renderToStaticMarkup(<Markdown text={post.body} resolveUrl={url => absolute(resolvePostUrl(url))} />);
+    return `  <entry>
+    <title>${escapeXml(post.title)}</title>
+    <link href="${escapeXml(url)}"/>
+    <id>${escapeXml(id(postHref(post.slug)))}</id>
+    <published>${post.date}T00:00:00Z</published>
+    <updated>${post.date}T00:00:00Z</updated>
+${post.tags.map(tag => `    <category term="${escapeXml(tag)}"/>`).join('\n')}
+    <summary>${escapeXml(post.summary)}</summary>
+    <content type="html">${escapeXml(html)}</content>
+  </entry>`;
+  });
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(`${SITE.name} devlog`)}</title>
+  <subtitle>${escapeXml(SITE.summary)}</subtitle>
+  <link href="${escapeXml(absolute(BLOG_PATH))}"/>
+  <link rel="self" href="${escapeXml(absolute(FEED_PATH))}"/>
+  <id>${escapeXml(id(BLOG_PATH))}</id>
+  <updated>${(posts[0] ? new Date(`${posts[0].date}T00:00:00Z`) : updatedAt).toISOString()}</updated>
+  <author><name>${escapeXml(SITE.name)}</name></author>
+${entries.join('\n')}
+</feed>
+`;
+};
+
+// --- CLI ---
+const argValue = (flag: string) => {
+  const index = process.argv.indexOf(flag);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const main = async () => {
+  const root = path.resolve(import.meta.dirname, '..');
+  const contentDir = path.resolve(argValue('--content') || path.join(root, 'content/blog'));
+  const outDir = path.resolve(argValue('--out') || path.join(root, 'data'));
+  const includeDrafts = process.argv.includes('--drafts');
+
+  const files = (await readdir(contentDir).catch(() => [] as string[])).filter(file => /\.mdx?$/.test(file));
+  const all = await Promise.all(files.map(file => readPost(contentDir, file)));
+  const posts: BlogPost[] = all
+    .filter(post => includeDrafts || !post.draft)
+    .sort((a, b) => b.date.localeCompare(a.date) || a.slug.localeCompare(b.slug))
+    .map(({ draft, ...post }) => post);
+
+  const now = new Date();
+  const index: BlogIndex = { posts };
+  await mkdir(outDir, { recursive: true });
+  await writeFile(path.join(outDir, 'blog.json'), JSON.stringify(index, null, 2) + '\n');
+
+  // Always written, since every page links to it
+  const siteUrl = process.env.SITE_URL?.replace(/\/+$/, '') || '';
+  if (!siteUrl) console.warn('SITE_URL is not set; the Atom feed will use relative links.');
+  await writeFile(path.join(root, 'public', FEED_PATH.slice(1)), buildFeed(posts, siteUrl, now));
+  console.log(`Compiled ${posts.length} posts${includeDrafts ? ' (with drafts)' : ''} to ${path.relative(process.cwd(), outDir) || '.'}`);
+};
+
+main().catch(error => {
+  // A broken post should stop the build rather than silently vanish from the blog
+  console.error('Blog build failed:', error.message);
+  process.exitCode = 1;
+});
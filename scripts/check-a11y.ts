@@ -0,0 +1,86 @@
+import { createRequire } from 'module';
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { JSDOM } from 'jsdom';
+import type { Result } from 'axe-core';
+
+// Runs axe-core over every pre-rendered page in dist/ and fails when any page breaks a
+// WCAG 2.1 A or AA rule. Runs after pre-rendering, so a missing label or alt text stops
+// the build.
+//
+//   npm run check:a11y     the build runs this after `npm run prerender`
+//
+// Pages are loaded into jsdom without running the app, so this sees the HTML a visitor
+// (or a screen reader) gets before hydration. jsdom has no layout, so color contrast is
+// left out and has to be checked in a browser.
+
+// --- Config ---
+const TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'];
+
+const DISABLED_RULES = ['color-contrast'];
+
+// The app shell has an empty #root; there is nothing to check
+const SKIPPED_FILES = ['shell.html'];
+
+// --- Pages ---
+const listHtmlFiles = async (dir: string): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true, recursive: true });
+  return entries
+    .filter(entry => entry.isFile() && entry.name.endsWith('.html'))
+    .map(entry => path.join(entry.parentPath, entry.name))
+    .filter(file => !SKIPPED_FILES.includes(path.relative(dir, file)))
+    .sort();
+};
+
+const require = createRequire(import.meta.url);
+
+const checkPage = async (html: string, axeSource: string): Promise<Result[]> => {
+  const dom = new JSDOM(html, { runScripts: 'outside-only', pretendToBeVisual: true });
+  try {
+    dom.window.eval(axeSource);
+    const { axe } = dom.window as unknown as { axe: typeof import('axe-core') };
+    const results = await axe.run(dom.window.document, {
+      runOnly: { type: 'tag', values: TAGS },
+      rules: Object.fromEntries(DISABLED_RULES.map(rule => [rule, { enabled: false }])),
+      resultTypes: ['violations']
+    });
+    return results.violations;
+  } finally {
+    dom.window.close();
+  }
+};
+
+const describe = (violation: Result) => {
+  const targets = violation.nodes.map(node => node.target.join(' ')).slice(0, 5);
+  const more = violation.nodes.length > targets.length ? ` (+${violation.nodes.length - targets.length} more)` : '';
+  return `  - ${violation.id}: ${violation.help}\n      ${targets.join('\n      ')}${more}`;
+};
+
+// --- CLI ---
+const main = async () => {
+  const outDir = path.resolve(import.meta.dirname, '../dist');
+  const axeSource = await readFile(require.resolve('axe-core/axe.min.js'), 'utf8');
+  const files = await listHtmlFiles(outDir);
+  if (files.length === 0) throw new Error('dist/ has no pages; run `npm run build` first.');
+
+  let failed = 0;
+  for (const file of files) {
+    const violations = await checkPage(await readFile(file, 'utf8'), axeSource);
+    if (violations.length === 0) continue;
+    failed++;
+    console.error(`${path.relative(outDir, file)}:`);
+    violations.forEach(violation => console.error(describe(violation)));
+  }
+
+  if (failed > 0) {
+    console.error(`Accessibility check failed on ${failed} of ${files.length} pages`);
+    process.exitCode = 1;
+  } else {
+    console.log(`Accessibility check passed on ${files.length} pages`);
+  }
+};
+
+main().catch(error => {
+  console.error('Accessibility check failed:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,17 @@
+import siteConfig from '../data/site.config';
+import { validateSiteConfig } from '../lib/site';
+
+// Checks data/site.config.ts against SITE_CONFIG_SCHEMA. Runs before every build, so a
+// typo or a missing field stops the build instead of shipping a blank section.
+//
+//   npm run check:site
+
+const errors = validateSiteConfig(siteConfig);
+
+if (errors.length > 0) {
+  console.error(`data/site.config.ts has ${errors.length} problem(s):`);
+  errors.forEach(error => console.error(`  - ${error}`));
+  process.exitCode = 1;
+} else {
+  console.log('Site config OK');
+}
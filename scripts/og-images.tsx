@@ -0,0 +1,206 @@
+import React from 'react';
+import { createRequire } from 'module';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import satori, { type Font } from 'satori';
+import { Resvg } from '@resvg/resvg-js';
+import { loadPosts, type BlogPost } from '../lib/blog';
+import { GITHUB_SNAPSHOT } from '../lib/github';
+import { OG_IMAGE_HEIGHT, OG_IMAGE_WIDTH, SITE_OG_IMAGE, postOgImage, projectOgImage } from '../lib/og';
+import { languageColor, reposToProjects, type Project } from '../lib/portfolio';
+import { SITE } from '../lib/site';
+
+// Renders the Open Graph images into public/og: one for the site, one per project in
+// the GitHub snapshot and one per post. Vite copies them into dist/ and the dev server
+// serves them as they are.
+//
+//   npm run og             the build runs this after the snapshot and the blog
+//
+// Images are 1200×630 PNGs in the site's dark theme, drawn with satori (layout to SVG)
+// and resvg (SVG to PNG). The fonts come from the @fontsource packages, so no network
+// is needed. public/og is cleared first, so removed projects and posts lose their image.
+
+// --- Cards ---
+interface CardMeta {
+  label: string;
+  // Dot in front of the label, e.g. the language color
+  dot?: string;
+  star?: boolean;
+}
+
+interface Card {
+  kicker: string;
+  title: string;
+  // Part of the title drawn with the gradient, like the hero headline
+  highlight?: string;
+  description: string;
+  meta: CardMeta[];
+  tags: string[];
+}
+
+const MAX_TAGS = 4;
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text);
+
+const siteCard = (): Card => {
+  const { before, highlight, after } = SITE.hero.headline;
+  return {
+    kicker: SITE.role,
+    title: before,
+    highlight: `${highlight} ${after}`,
+    description: SITE.summary,
+    meta: [{ label: SITE.location }],
+    tags: SITE.skills.map(group => group.title).slice(0, MAX_TAGS)
+  };
+};
+
+const projectCard = (project: Project): Card => ({
+  kicker: project.category,
+  title: project.title,
+  description: project.description,
+  meta: [
+    ...(project.language ? [{ label: project.language, dot: languageColor(project.language) }] : []),
+    { label: String(project.stars ?? 0), star: true }
+  ],
+  tags: (project.topics.length > 0 ? project.topics : project.tags).slice(0, MAX_TAGS)
+});
+
+const postCard = (post: BlogPost): Card => ({
+  kicker: 'Devlog',
+  title: post.title,
+  description: post.summary,
+  meta: [
+    { label: new Date(`${post.date}T00:00:00Z`).toLocaleDateString('en', { dateStyle: 'medium', timeZone: 'UTC' }) },
+    { label: `${post.readingMinutes} min read` }
+  ],
+  tags: post.tags.slice(0, MAX_TAGS)
+});
+
+// --- Layout ---
+// Dark theme colors from styles.css
+const COLORS = {
+  page: '#020617',
+  text: '#ffffff',
+  muted: '#9ca3af',
+  accent: '#60a5fa',
+  star: '#fde047',
+  hairline: 'rgba(255, 255, 255, 0.12)'
+};
+
+const GRADIENT = 'linear-gradient(135deg, #60a5fa 0%, #a855f7 50%, #f472b6 100%)';
+
+const gradientText = { backgroundImage: GRADIENT, backgroundClip: 'text', color: 'transparent' } as const;
+
+const StarIcon = () => (
+  <svg width="26" height="26" viewBox="0 0 24 24" fill={COLORS.star}>
+    <path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z" />
+  </svg>
+);
+
+const CardImage = ({ card }: { card: Card }) => (
+  <div
+    style={{
+      width: '100%',
+      height: '100%',
+      display: 'flex',
+      flexDirection: 'column',
+      justifyContent: 'space-between',
+      padding: '64px 72px',
+      backgroundColor: COLORS.page,
+      backgroundImage:
+        'radial-gradient(circle at 90% 0%, rgba(168, 85, 247, 0.35), transparent 55%), radial-gradient(circle at 0% 100%, rgba(37, 99, 235, 0.35), transparent 55%)',
+      color: COLORS.text,
+      fontFamily: 'Plus Jakarta Sans'
+    }}
+  >
+    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+      <div style={{ display: 'flex', fontSize: 34, fontWeight: 800, letterSpacing: -1 }}>
+        <span style={gradientText}>{SITE.logo.highlight}</span>
+        <span>{SITE.logo.rest}</span>
+      </div>
+      <div style={{ display: 'flex', width: 180, height: 10, borderRadius: 5, backgroundImage: 'linear-gradient(90deg, #2563eb, #9333ea)' }} />
+    </div>
+
+    <div style={{ display: 'flex', flexDirection: 'column' }}>
+      <div style={{ fontSize: 24, fontWeight: 800, letterSpacing: 4, textTransform: 'uppercase', color: COLORS.accent }}>
+        {truncate(card.kicker, 40)}
+      </div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', marginTop: 16, fontSize: 72, fontWeight: 800, lineHeight: 1.1, letterSpacing: -2 }}>
+        <span>{truncate(card.title, 60)}</span>
+        {card.highlight && <span style={{ ...gradientText, marginLeft: 20 }}>{card.highlight}</span>}
+      </div>
+      <div style={{ marginTop: 24, fontSize: 30, lineHeight: 1.4, color: COLORS.muted }}>{truncate(card.description, 140)}</div>
+    </div>
+
+    <div style={{ display: 'flex', alignItems: 'center', fontSize: 24, fontWeight: 700 }}>
+      {card.meta.map(item => (
+        <div key={item.label} style={{ display: 'flex', alignItems: 'center', marginRight: 36 }}>
+          {item.dot && <div style={{ width: 18, height: 18, borderRadius: 9, backgroundColor: item.dot, marginRight: 12 }} />}
+          {item.star && <div style={{ display: 'flex', marginRight: 10 }}><StarIcon /></div>}
+          <span>{item.label}</span>
+        </div>
+      ))}
+      {card.tags.map(tag => (
+        <div
+          key={tag}
+          style={{
+            marginRight: 12,
+            padding: '8px 20px',
+            borderRadius: 999,
+            border: `1px solid ${COLORS.hairline}`,
+            backgroundColor: 'rgba(255, 255, 255, 0.05)',
+            fontSize: 20,
+            color: COLORS.muted
+          }}
+        >
+          {truncate(tag, 24)}
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+// --- Rendering ---
+const require = createRequire(import.meta.url);
+
+// Latin plus Latin Extended, which covers names and titles in the site's languages
+const loadFonts = async (): Promise<Font[]> => {
+  const files = [400, 700, 800].flatMap(weight =>
+    ['latin', 'latin-ext'].map(subset => ({ weight, subset }))
+  );
+  return Promise.all(files.map(async ({ weight, subset }) => ({
+    name: 'Plus Jakarta Sans',
+    weight: weight as Font['weight'],
+    style: 'normal' as const,
+    data: await readFile(require.resolve(`@fontsource/plus-jakarta-sans/files/plus-jakarta-sans-${subset}-${weight}-normal.woff`))
+  })));
+};
+
+const renderPng = async (card: Card, fonts: Font[]) => {
+  const svg = await satori(<CardImage card={card} />, { width: OG_IMAGE_WIDTH, height: OG_IMAGE_HEIGHT, fonts });
+  return new Resvg(svg, { fitTo: { mode: 'width', value: OG_IMAGE_WIDTH } }).render().asPng();
+};
+
+// --- CLI ---
+const main = async () => {
+  const publicDir = path.resolve(import.meta.dirname, '../public');
+  const images: [string, Card][] = [
+    [SITE_OG_IMAGE, siteCard()],
+    ...reposToProjects(GITHUB_SNAPSHOT.repos).map(project => [projectOgImage(project.repo), projectCard(project)] as [string, Card]),
+    ...(await loadPosts()).map(post => [postOgImage(post.slug), postCard(post)] as [string, Card])
+  ];
+
+  const fonts = await loadFonts();
+  await rm(path.join(publicDir, path.dirname(SITE_OG_IMAGE)), { recursive: true, force: true });
+  for (const [imagePath, card] of images) {
+    const file = path.join(publicDir, imagePath);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, await renderPng(card, fonts));
+  }
+  console.log(`Rendered ${images.length} Open Graph images to ${path.relative(process.cwd(), path.join(publicDir, 'og'))}`);
+};
+
+main().catch(error => {
+  console.error('Open Graph images failed:', error);
+  process.exitCode = 1;
+});
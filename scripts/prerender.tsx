@@ -0,0 +1,173 @@
+import React from 'react';
+import { prerender } from 'react-dom/static';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { createServer, loadEnv } from 'vite';
+import { loadPosts, postHref } from '../lib/blog';
+import { GITHUB_SNAPSHOT } from '../lib/github';
+import { projectHref, reposToProjects } from '../lib/portfolio';
+import { matchRoute } from '../lib/router';
+import { absoluteUrl, pageMeta, type PageData, type PageMeta } from '../lib/seo';
+
+// Pre-renders every page of the built site: the app rendered for that path into #root,
+// plus the page's own title, description, Open Graph/Twitter tags and JSON-LD. The
+// browser then hydrates the HTML instead of rendering it again. Also writes sitemap.xml
+// and robots.txt.
+//
+//   npm run build          runs this afterwards (postbuild)
+//   SITE_URL=https://...   required: link previews need absolute og:image URLs, and the
+//                          sitemap and canonical links are built from it. Read like Vite
+//                          reads env, so .env.local works too.
+//
+// The app is loaded through Vite (ssrLoadModule), so it sees the same env and imports as
+// in the browser. Pages: home, /projects and every project in the snapshot, /blog and
+// every post, /contact, and 404.html. The untouched app shell is kept as shell.html for
+// paths that have no page of their own (see server/index.ts).
+
+interface Page {
+  path: string;
+  // Output file, relative to dist/
+  file: string;
+  // Last change, for the sitemap
+  lastmod?: string;
+  // Listed in the sitemap
+  listed: boolean;
+}
+
+type AppModule = typeof import('../index');
+type RouterModule = typeof import('../lib/router');
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+const escapeXml = escapeHtml;
+
+// --- Pages ---
+const listPages = ({ projects, posts }: PageData): Page[] => [
+  { path: '/', file: 'index.html', listed: true },
+  { path: '/projects', file: 'projects/index.html', listed: true },
+  ...projects.map(project => ({
+    path: projectHref(project.repo),
+    file: `projects/${project.repo}/index.html`,
+    lastmod: project.updatedAt,
+    listed: true
+  })),
+  { path: '/blog', file: 'blog/index.html', lastmod: posts[0]?.date, listed: true },
+  ...posts.map(post => ({ path: postHref(post.slug), file: `blog/${post.slug}/index.html`, lastmod: post.date, listed: true })),
+  { path: '/contact', file: 'contact/index.html', listed: true },
+  { path: '/404', file: '404.html', listed: false }
+];
+
+// --- Head ---
+const setMeta = (html: string, attr: 'name' | 'property', key: string, content: string) => {
+  const tag = `<meta ${attr}="${key}" content="${escapeHtml(content)}">`;
+  const pattern = new RegExp(`<meta\\s+${attr}="${key}"[^>]*>`);
+  return pattern.test(html) ? html.replace(pattern, tag) : html.replace('</head>', `    ${tag}\n</head>`);
+};
+
+// JSON in a <script> must not be able to close the tag
+const jsonLdTag = (data: Record<string, unknown>) =>
+  `<script type="application/ld+json">${JSON.stringify(data).replace(/</g, '\\u003c')}</script>`;
+
+const renderHead = (shell: string, meta: PageMeta, siteUrl: string) => {
+  const image = absoluteUrl(meta.image, siteUrl);
+  let html = shell.replace(/<title>[^<]*<\/title>/, `<title>${escapeHtml(meta.title)}</title>`);
+
+  html = setMeta(html, 'name', 'description', meta.description);
+  html = setMeta(html, 'property', 'og:type', meta.type);
+  html = setMeta(html, 'property', 'og:title', meta.title);
+  html = setMeta(html, 'property', 'og:description', meta.description);
+  html = setMeta(html, 'property', 'og:image', image);
+  html = setMeta(html, 'name', 'twitter:title', meta.title);
+  html = setMeta(html, 'name', 'twitter:description', meta.description);
+  html = setMeta(html, 'name', 'twitter:image', image);
+  if (meta.noindex) html = setMeta(html, 'name', 'robots', 'noindex');
+
+  const canonical = absoluteUrl(meta.path, siteUrl);
+  html = setMeta(html, 'property', 'og:url', canonical);
+  html = html.replace('</head>', `    <link rel="canonical" href="${escapeHtml(canonical)}">\n</head>`);
+
+  const structured = meta.jsonLd.map(data => `    ${jsonLdTag(data)}\n`).join('');
+  return html.replace('</head>', `${structured}</head>`);
+};
+
+// --- Sitemap ---
+const renderSitemap = (pages: Page[], siteUrl: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${pages.filter(page => page.listed).map(page => `  <url>
+    <loc>${escapeXml(absoluteUrl(page.path, siteUrl))}</loc>${page.lastmod ? `\n    <lastmod>${escapeXml(page.lastmod.slice(0, 10))}</lastmod>` : ''}
+  </url>`).join('\n')}
+</urlset>
+`;
+
+const renderRobots = (siteUrl: string) => `User-agent: *\nAllow: /\n\nSitemap: ${siteUrl}/sitemap.xml\n`;
+
+// --- Main ---
+const main = async () => {
+  const root = path.resolve(import.meta.dirname, '..');
+  const outDir = path.join(root, 'dist');
+  // Crawlers ignore relative og:image URLs, so pages without SITE_URL would share without a preview
+  const siteUrl = loadEnv('production', root, '').SITE_URL?.replace(/\/+$/, '');
+  if (!siteUrl) {
+    throw new Error('SITE_URL is not set. Link previews need absolute image URLs: set it to the public URL of the site (http://localhost:3000 for a local build).');
+  }
+  // Only meaningful on top of a finished build
+  const shell = await readFile(path.join(outDir, 'index.html'), 'utf8');
+  if (!shell.includes('<div id="root"></div>')) {
+    throw new Error('dist/index.html is already pre-rendered; run `npm run build` again first.');
+  }
+
+  const data: PageData = { projects: reposToProjects(GITHUB_SNAPSHOT.repos), posts: await loadPosts() };
+  const pages = listPages(data);
+
+  const vite = await createServer({
+    root,
+    mode: 'production',
+    logLevel: 'warn',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false, ws: false }
+  });
+
+  try {
+    const { App, preloadRoute } = (await vite.ssrLoadModule('/index.tsx')) as AppModule;
+    const { setServerLocation } = (await vite.ssrLoadModule('/lib/router.ts')) as RouterModule;
+
+    for (const page of pages) {
+      const route = matchRoute(page.path);
+      setServerLocation(page.path);
+      await preloadRoute(route);
+
+      // Errors inside a Suspense boundary don't reject; they would leave that part to the browser.
+      // Large boundaries are normally sent after the shell and moved into place by a script;
+      // an unlimited chunk size keeps every page readable without JavaScript.
+      const errors: unknown[] = [];
+      const { prelude } = await prerender(<App />, {
+        progressiveChunkSize: Infinity,
+        onError: error => { errors.push(error); }
+      });
+      if (errors.length > 0) throw new Error(`${page.path} did not render`, { cause: errors[0] });
+      const rendered = await new Response(prelude).text();
+      // React puts preload links for the page's images ahead of the markup; they belong in <head>
+      const [, preloads, body] = rendered.match(/^((?:<link [^>]*\/>)*)([\s\S]*)$/)!;
+      const html = renderHead(shell, pageMeta(route, page.path, data, siteUrl), siteUrl)
+        .replace('</head>', preloads ? `    ${preloads}\n</head>` : '</head>')
+        .replace('<div id="root"></div>', `<div id="root" data-prerendered="${escapeHtml(page.path)}">${body}</div>`);
+
+      const file = path.join(outDir, page.file);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, html);
+    }
+  } finally {
+    await vite.close();
+  }
+
+  await writeFile(path.join(outDir, 'shell.html'), shell);
+  await writeFile(path.join(outDir, 'robots.txt'), renderRobots(siteUrl));
+  await writeFile(path.join(outDir, 'sitemap.xml'), renderSitemap(pages, siteUrl));
+  console.log(`Pre-rendered ${pages.length} pages to ${path.relative(process.cwd(), outDir)}`);
+};
+
+main().catch(error => {
+  console.error('Pre-rendering failed:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,63 @@
+import { execFile } from 'child_process';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { GITHUB_USER, type GitHubReadmes, type GitHubSnapshot } from '../lib/github';
+
+// Runs the snapshot script the way `npm run snapshot:fixtures` does, into a temporary
+// directory, and checks what it wrote.
+
+const run = promisify(execFile);
+const SCRIPT = path.resolve(import.meta.dirname, 'snapshot-github.ts');
+
+const snapshot = (...args: string[]) => run(process.execPath, ['--import', 'tsx', SCRIPT, '--fixtures', ...args]);
+
+const readJson = async <T>(file: string): Promise<T> => JSON.parse(await readFile(file, 'utf8'));
+
+describe('snapshot-github --fixtures', () => {
+  let outDir: string;
+
+  beforeEach(async () => {
+    outDir = await mkdtemp(path.join(os.tmpdir(), 'snapshot-'));
+  });
+
+  afterEach(() => rm(outDir, { recursive: true, force: true }));
+
+  it('writes every fixture repo with its languages and README flag', async () => {
+    await snapshot('--out', outDir);
+
+    const data = await readJson<GitHubSnapshot>(path.join(outDir, 'github-snapshot.json'));
+    expect(data.user).toBe(GITHUB_USER);
+    expect(Number.isNaN(Date.parse(data.generatedAt!))).toBe(false);
+    expect(data.repos.map(repo => repo.name)).toEqual([
+      'ChristTech',
+      'fixture-robot-arm',
+      'fixture-vision-classifier',
+      'fixture-no-readme'
+    ]);
+
+    const arm = data.repos.find(repo => repo.name === 'fixture-robot-arm')!;
+    expect(arm).toMatchObject({
+      topics: ['ros', 'robotics', 'python'],
+      stargazers_count: 7,
+      language: 'Python',
+      languages: { Python: 48210, CMake: 1320, Shell: 410 },
+      hasReadme: true
+    });
+    expect(data.repos.find(repo => repo.name === 'fixture-no-readme')).toMatchObject({ languages: {}, hasReadme: false });
+  }, 30_000);
+
+  it('writes the READMEs of the repos that have one', async () => {
+    await snapshot('--out', outDir);
+
+    const readmes = await readJson<GitHubReadmes>(path.join(outDir, 'github-readmes.json'));
+    expect(Object.keys(readmes).sort()).toEqual(['fixture-robot-arm', 'fixture-vision-classifier']);
+    expect(readmes['fixture-robot-arm']).toMatch(/^# Fixture Robot Arm/);
+  }, 30_000);
+
+  it('fails instead of keeping the previous snapshot when the fixtures are missing', async () => {
+    await expect(snapshot(path.join(outDir, 'missing'), '--out', outDir)).rejects.toMatchObject({ code: 1 });
+  }, 30_000);
+});
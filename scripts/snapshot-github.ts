@@ -0,0 +1,149 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  GITHUB_USER,
+  type GitHubReadmes,
+  type GitHubRepo,
+  type GitHubSnapshot,
+  type SnapshotRepo
+} from '../lib/github';
+
+// Captures repos, topics, languages and READMEs into data/ at build time. GITHUB_TOKEN
+// is read here on the build machine and never reaches the client bundle.
+//
+//   npm run snapshot                       fetch from the GitHub API
+//   npm run snapshot -- --fixtures [dir]   read scripts/fixtures/github instead (no network)
+//   npm run snapshot -- --out <dir>        write somewhere other than data/
+//
+// A failed API run keeps the previous snapshot so builds never break on GitHub outages.
+
+// --- Sources ---
+interface GitHubSource {
+  listRepos(): Promise<GitHubRepo[]>;
+  readme(repo: string): Promise<string | null>;
+  languages(repo: string): Promise<Record<string, number>>;
+}
+
+const API = 'https://api.github.com';
+
+const createApiSource = (token?: string): GitHubSource => {
+  const request = async (url: string, accept = 'application/vnd.github+json') => {
+    const response = await fetch(url, {
+      headers: {
+        Accept: accept,
+        'User-Agent': `${GITHUB_USER}-portfolio-snapshot`,
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      }
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`GitHub responded ${response.status} for ${url}`);
+    return response;
+  };
+
+  return {
+    async listRepos() {
+      const repos: GitHubRepo[] = [];
+      for (let page = 1; ; page++) {
+        const response = await request(`${API}/users/${GITHUB_USER}/repos?sort=updated&per_page=100&page=${page}`);
+        const batch: GitHubRepo[] = response ? await response.json() : [];
+        repos.push(...batch);
+        if (batch.length < 100) return repos;
+      }
+    },
+    async readme(repo) {
+      const response = await request(`${API}/repos/${GITHUB_USER}/${repo}/readme`, 'application/vnd.github.raw+json');
+      return response ? response.text() : null;
+    },
+    async languages(repo) {
+      const response = await request(`${API}/repos/${GITHUB_USER}/${repo}/languages`);
+      return response ? response.json() : {};
+    }
+  };
+};
+
+// Reads <dir>/repos.json, <dir>/readmes/<repo>.md and <dir>/languages/<repo>.json
+const createFixtureSource = (dir: string): GitHubSource => {
+  const readOptional = (file: string) => readFile(path.join(dir, file), 'utf8').catch(() => null);
+
+  return {
+    async listRepos() {
+      return JSON.parse(await readFile(path.join(dir, 'repos.json'), 'utf8'));
+    },
+    readme: repo => readOptional(`readmes/${repo}.md`),
+    async languages(repo) {
+      return JSON.parse((await readOptional(`languages/${repo}.json`)) || '{}');
+    }
+  };
+};
+
+// --- Snapshot ---
+const pickRepo = (repo: GitHubRepo): GitHubRepo => ({
+  name: repo.name,
+  description: repo.description,
+  html_url: repo.html_url,
+  homepage: repo.homepage,
+  topics: repo.topics || [],
+  stargazers_count: repo.stargazers_count,
+  language: repo.language,
+  updated_at: repo.updated_at
+});
+
+const buildSnapshot = async (source: GitHubSource, generatedAt = new Date()) => {
+  const repos = await source.listRepos();
+  const readmes: GitHubReadmes = {};
+  const snapshotRepos: SnapshotRepo[] = [];
+
+  // One repo at a time keeps well clear of GitHub's secondary rate limits
+  for (const repo of repos) {
+    const [readme, languages] = await Promise.all([source.readme(repo.name), source.languages(repo.name)]);
+    if (readme) readmes[repo.name] = readme;
+    snapshotRepos.push({ ...pickRepo(repo), languages, hasReadme: Boolean(readme) });
+  }
+
+  const snapshot: GitHubSnapshot = {
+    generatedAt: generatedAt.toISOString(),
+    user: GITHUB_USER,
+    repos: snapshotRepos
+  };
+  return { snapshot, readmes };
+};
+
+// --- CLI ---
+const argValue = (flag: string) => {
+  const index = process.argv.indexOf(flag);
+  if (index === -1) return undefined;
+  const value = process.argv[index + 1];
+  return value && !value.startsWith('--') ? value : '';
+};
+
+const main = async () => {
+  const fixtures = argValue('--fixtures');
+  const fixtureDir = fixtures === undefined ? null : path.resolve(fixtures || path.join(import.meta.dirname, 'fixtures/github'));
+  const outDir = path.resolve(argValue('--out') || path.join(import.meta.dirname, '../data'));
+
+  const token = process.env.GITHUB_TOKEN;
+  if (!fixtureDir && !token) {
+    console.warn('GITHUB_TOKEN is not set; fetching unauthenticated (60 requests/hour).');
+  }
+
+  const source = fixtureDir ? createFixtureSource(fixtureDir) : createApiSource(token);
+  const { snapshot, readmes } = await buildSnapshot(source);
+
+  await mkdir(outDir, { recursive: true });
+  await writeFile(path.join(outDir, 'github-snapshot.json'), JSON.stringify(snapshot, null, 2) + '\n');
+  await writeFile(path.join(outDir, 'github-readmes.json'), JSON.stringify(readmes, null, 2) + '\n');
+  console.log(
+    `Saved ${snapshot.repos.length} repos and ${Object.keys(readmes).length} READMEs` +
+    `${fixtureDir ? ' from fixtures' : ''} to ${path.relative(process.cwd(), outDir) || '.'}`
+  );
+};
+
+main().catch(error => {
+  if (process.argv.includes('--fixtures')) {
+    // Fixture runs are tests: a failure should fail
+    console.error('GitHub snapshot from fixtures failed:', error);
+    process.exitCode = 1;
+    return;
+  }
+  console.warn('GitHub snapshot skipped, keeping the previous one:', error.message);
+});
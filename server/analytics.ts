@@ -0,0 +1,158 @@
+import { timingSafeEqual } from 'crypto';
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import path from 'path';
+import { MAX_EVENTS_PER_BATCH, parseAnalyticsEvent, summarizeEvents, type AnalyticsEvent } from '../lib/analytics';
+import { HttpError, clientIp, createRateLimiter, readBody, sendError, type Handler, type RateLimitOptions } from './http';
+
+// Self-hosted analytics collector. POST stores events sent by the collector sink,
+// GET returns the totals the /stats dashboard shows. Events are appended to a JSON
+// Lines file; nothing about the sender (IP, user agent) is stored with them.
+
+// --- Types ---
+export interface AnalyticsHandlerOptions {
+  // JSON Lines file the events are appended to
+  file: string;
+  // When set, reading the totals needs `Authorization: Bearer <token>`
+  token?: string;
+  // Without a token the totals are not served at all; only the dev server turns this off
+  requireToken?: boolean;
+  rateLimit?: RateLimitOptions;
+  // Read the client IP from X-Forwarded-For (only behind a trusted reverse proxy)
+  trustProxy?: boolean;
+}
+
+// --- Config ---
+export const DEFAULT_ANALYTICS_FILE = '.analytics/events.jsonl';
+
+// A visitor clicking around sends a batch every few seconds at most
+const DEFAULT_RATE_LIMIT: RateLimitOptions = { windowMs: 60_000, max: 30 };
+
+const MAX_BODY_BYTES = 16 * 1024;
+
+// Longest range the dashboard can ask for
+const MAX_DAYS = 365;
+
+export const analyticsOptionsFromEnv = (env: Record<string, string | undefined>): AnalyticsHandlerOptions => ({
+  file: path.resolve(env.ANALYTICS_FILE || DEFAULT_ANALYTICS_FILE),
+  token: env.ANALYTICS_TOKEN || undefined,
+  trustProxy: env.TRUST_PROXY === 'true'
+});
+
+// --- Storage ---
+// Events are stamped with the server's clock: a visitor's clock can be off, or set on purpose
+const parseBatch = (raw: string, now: number): AnalyticsEvent[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, 'Request body must be JSON.');
+  }
+  const batch: unknown = typeof data === 'object' && data !== null ? (data as Record<string, unknown>).events : undefined;
+  if (!Array.isArray(batch) || batch.length === 0) throw new HttpError(400, 'Events are required.');
+  if (batch.length > MAX_EVENTS_PER_BATCH) {
+    throw new HttpError(413, `Batches are limited to ${MAX_EVENTS_PER_BATCH} events.`);
+  }
+
+  return batch.map((event: unknown) => {
+    const parsed = parseAnalyticsEvent(event, now);
+    if (!parsed) throw new HttpError(400, 'Events are malformed.');
+    return parsed;
+  });
+};
+
+const readEvents = async (file: string): Promise<AnalyticsEvent[]> => {
+  let text: string;
+  try {
+    text = await readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+  const events: AnalyticsEvent[] = [];
+  for (const line of text.split('\n')) {
+    if (!line) continue;
+    try {
+      events.push(JSON.parse(line));
+    } catch {
+      // A line cut short by a crash; the rest of the file is still good
+    }
+  }
+  return events;
+};
+
+const isAuthorized = (header: string | undefined, token: string) => {
+  const given = Buffer.from(header?.replace(/^Bearer\s+/i, '') || '');
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+// --- Handler ---
+
+// POST { events } -> 204, GET ?days=30 -> AnalyticsSummary, or 503 when no token is set
+// (unless `requireToken` is off). Works as a plain node:http handler and as Connect
+// middleware in the Vite dev server.
+export const createAnalyticsHandler = ({
+  file,
+  token,
+  requireToken = true,
+  rateLimit = DEFAULT_RATE_LIMIT,
+  trustProxy = false
+}: AnalyticsHandlerOptions): Handler => {
+  const limit = createRateLimiter(rateLimit);
+
+  return async (req, res) => {
+    if (req.method === 'GET') {
+      if (!token && requireToken) {
+        sendError(res, 503, 'The dashboard is off until ANALYTICS_TOKEN is set.');
+        return;
+      }
+      if (token && !isAuthorized(req.headers.authorization, token)) {
+        sendError(res, 401, 'A valid token is required.', { 'WWW-Authenticate': 'Bearer' });
+        return;
+      }
+      const days = Number(new URL(req.url || '/', 'http://localhost').searchParams.get('days')) || 30;
+      try {
+        const summary = summarizeEvents(await readEvents(file), { days: Math.min(Math.max(1, Math.round(days)), MAX_DAYS) });
+        res.writeHead(200, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+        res.end(JSON.stringify(summary));
+      } catch (error) {
+        console.error('Analytics read error:', error);
+        sendError(res, 500, 'Could not read the events.');
+      }
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      sendError(res, 405, 'Use GET or POST.', { Allow: 'GET, POST' });
+      return;
+    }
+
+    const retryAfter = limit(clientIp(req, trustProxy));
+    if (retryAfter > 0) {
+      sendError(res, 429, 'Too many events.', { 'Retry-After': String(retryAfter) });
+      return;
+    }
+
+    let events: AnalyticsEvent[];
+    try {
+      events = parseBatch(await readBody(req, MAX_BODY_BYTES), Date.now());
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendError(res, error.status, error.message);
+      } else {
+        sendError(res, 400, 'Could not read request.');
+      }
+      return;
+    }
+
+    try {
+      await mkdir(path.dirname(file), { recursive: true });
+      await appendFile(file, events.map(event => JSON.stringify(event) + '\n').join(''));
+      res.writeHead(204);
+      res.end();
+    } catch (error) {
+      console.error('Analytics write error:', error);
+      sendError(res, 500, 'Could not store the events.');
+    }
+  };
+};
@@ -0,0 +1,122 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MAX_MESSAGE_CHARS } from '../lib/chat';
+import type { GitHubRepo } from '../lib/github';
+import { createChatHandler, createProjectsLoader, type ChatHandlerOptions } from './chat';
+import { providersFromEnv } from './providers';
+
+const repo = (name: string): GitHubRepo => ({
+  name,
+  description: `${name} description`,
+  html_url: `https://github.com/ChristTech/${name}`,
+  homepage: '',
+  topics: [],
+  stargazers_count: 0,
+  language: 'Python',
+  updated_at: '2025-03-01T00:00:00Z'
+});
+
+const HOUR = 60 * 60 * 1000;
+
+describe('createProjectsLoader', () => {
+  it('refetches the repos once the list is older than the TTL, with the ETag', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => Response.json([repo('line-follower')], { headers: { ETag: '"v1"' } }));
+    vi.stubGlobal('fetch', fetchMock);
+    const loadProjects = createProjectsLoader(HOUR);
+
+    expect((await loadProjects(0)).map(project => project.repo)).toEqual(['line-follower']);
+    await loadProjects(HOUR - 1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockResolvedValueOnce(Response.json([repo('line-follower'), repo('robot-arm')]));
+    expect((await loadProjects(HOUR)).map(project => project.repo).sort()).toEqual(['line-follower', 'robot-arm']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][1].headers).toMatchObject({ 'If-None-Match': '"v1"' });
+  });
+
+  it('keeps the last list when GitHub fails or has nothing new', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = vi.fn(async () => Response.json([repo('line-follower')], { headers: { ETag: '"v1"' } }));
+    vi.stubGlobal('fetch', fetchMock);
+    const loadProjects = createProjectsLoader(HOUR);
+    await loadProjects(0);
+
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 304 }));
+    expect((await loadProjects(HOUR)).map(project => project.repo)).toEqual(['line-follower']);
+
+    fetchMock.mockRejectedValueOnce(new TypeError('fetch failed'));
+    expect((await loadProjects(2 * HOUR)).map(project => project.repo)).toEqual(['line-follower']);
+  });
+});
+
+describe('createChatHandler', () => {
+  let server: Server | undefined;
+
+  afterEach(() => new Promise<void>(resolve => (server ? server.close(() => resolve()) : resolve())));
+
+  // Serves the handler on a free port, with the canned provider and no GitHub calls
+  const serve = async (options: Partial<ChatHandlerOptions> = {}) => {
+    server = createServer(createChatHandler({
+      providers: [{ type: 'canned', delayMs: 0 }],
+      loadProjects: async () => [],
+      ...options
+    }));
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return (body: unknown) => fetch(`http://127.0.0.1:${port}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: typeof body === 'string' ? body : JSON.stringify(body)
+    });
+  };
+
+  it('streams the reply as plain text', async () => {
+    const post = await serve();
+
+    const response = await post({ history: [], message: 'Hello there' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toMatch(/^text\/plain/);
+    expect(await response.text()).toContain('You asked: "Hello there"');
+  });
+
+  it(`rejects a message over ${MAX_MESSAGE_CHARS} characters with 413`, async () => {
+    const post = await serve();
+
+    const response = await post({ history: [], message: 'a'.repeat(MAX_MESSAGE_CHARS + 1) });
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({ error: `Messages are limited to ${MAX_MESSAGE_CHARS} characters.` });
+  });
+
+  it('rejects a body over 64 KB with 413', async () => {
+    const post = await serve();
+
+    const response = await post({ history: [], message: 'Hi', padding: 'a'.repeat(64 * 1024) });
+
+    expect(response.status).toBe(413);
+  });
+
+  it('answers 429 with Retry-After once an IP is over its limit', async () => {
+    const post = await serve({ rateLimit: { windowMs: 60_000, max: 1 } });
+
+    expect((await post({ history: [], message: 'First' })).status).toBe(200);
+    const limited = await post({ history: [], message: 'Second' });
+
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(Number(limited.headers.get('retry-after'))).toBeLessThanOrEqual(60);
+  });
+
+  it('answers from the canned provider with CHAT_MOCK=true, whatever keys are set', async () => {
+    const providers = providersFromEnv({ CHAT_MOCK: 'true', GEMINI_API_KEY: 'key' });
+    expect(providers).toEqual([{ type: 'canned' }]);
+
+    const post = await serve({ providers });
+    const response = await post({ history: [], message: 'Do you build robots?' });
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toMatch(/robotics systems with ROS/);
+  });
+});
@@ -0,0 +1,163 @@
+import { MAX_HISTORY_MESSAGES, MAX_MESSAGE_CHARS, isMessage, type ChatRequest } from '../lib/chat';
+import { CACHE_TTL_MS, GITHUB_SNAPSHOT, fetchRepos, type GitHubRepo } from '../lib/github';
+import { buildSystemInstruction, reposToProjects, type Project } from '../lib/portfolio';
+import { isLocale } from '../lib/i18n';
+import { createFallbackClient, type ProviderConfig } from './providers';
+import { HttpError, clientIp, createRateLimiter, readBody, sendError, type Handler, type RateLimitOptions } from './http';
+
+// --- Types ---
+export interface ChatHandlerOptions {
+  // Tried in order; the next one is used when a provider errors
+  providers: ProviderConfig[];
+  rateLimit?: RateLimitOptions;
+  // Read the client IP from X-Forwarded-For (only behind a trusted reverse proxy)
+  trustProxy?: boolean;
+  // The projects the assistant is told about; defaults to createProjectsLoader()
+  loadProjects?: () => Promise<Project[]>;
+}
+
+// --- Config ---
+const DEFAULT_RATE_LIMIT: RateLimitOptions = { windowMs: 60_000, max: 10 };
+
+// Whole request body, history included
+const MAX_BODY_BYTES = 64 * 1024;
+
+// --- Projects ---
+
+// The repo list the assistant is grounded in. The browser's loadProjects keeps one list
+// for the life of the page; a server runs for weeks, so this refetches once the list is
+// older than `ttlMs`, sending the ETag so an unchanged list doesn't count against the
+// rate limit. Starts from the build-time snapshot and keeps the last list when GitHub fails.
+export const createProjectsLoader = (ttlMs = CACHE_TTL_MS) => {
+  let repos: GitHubRepo[] = GITHUB_SNAPSHOT.repos;
+  let etag: string | undefined;
+  let request: Promise<Project[]> | null = null;
+  let requestedAt = 0;
+
+  const refresh = async () => {
+    try {
+      const result = await fetchRepos(etag);
+      if (result.status === 'modified') {
+        repos = result.repos;
+        etag = result.etag;
+      }
+    } catch (error) {
+      console.warn('Could not refresh the projects for the assistant:', error);
+    }
+    return reposToProjects(repos);
+  };
+
+  return (now = Date.now()): Promise<Project[]> => {
+    if (!request || now - requestedAt >= ttlMs) {
+      requestedAt = now;
+      request = refresh();
+    }
+    return request;
+  };
+};
+
+// --- Request parsing ---
+const parseChatRequest = (raw: string): ChatRequest => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, 'Request body must be JSON.');
+  }
+  const data = (typeof parsed === 'object' && parsed !== null ? parsed : {}) as Record<string, unknown>;
+
+  const message = typeof data.message === 'string' ? data.message.trim() : '';
+  if (!message) throw new HttpError(400, 'Message is required.');
+  if (message.length > MAX_MESSAGE_CHARS) {
+    throw new HttpError(413, `Messages are limited to ${MAX_MESSAGE_CHARS} characters.`);
+  }
+
+  const history: unknown[] = Array.isArray(data.history) ? data.history : [];
+  if (!history.every(isMessage)) throw new HttpError(400, 'History is malformed.');
+
+  // Old turns are truncated the same way the client does; oversized ones are rejected
+  const recent = history.slice(-MAX_HISTORY_MESSAGES);
+  if (recent.some(msg => msg.text.length > MAX_MESSAGE_CHARS * 4)) {
+    throw new HttpError(413, 'History contains an oversized message.');
+  }
+
+  // An unknown locale is not worth failing the request over; the reply is just in English
+  return { history: recent, message, locale: isLocale(data.locale) ? data.locale : undefined };
+};
+
+// --- Handler ---
+
+// POST { history, message, locale? } -> streamed text/plain reply. Works as a plain
+// node:http handler and as Connect middleware in the Vite dev server.
+export const createChatHandler = ({
+  providers,
+  rateLimit = DEFAULT_RATE_LIMIT,
+  trustProxy = false,
+  loadProjects = createProjectsLoader()
+}: ChatHandlerOptions): Handler => {
+  const limit = createRateLimiter(rateLimit);
+
+  return async (req, res) => {
+    if (req.method !== 'POST') {
+      sendError(res, 405, 'Use POST.', { Allow: 'POST' });
+      return;
+    }
+
+    const retryAfter = limit(clientIp(req, trustProxy));
+    if (retryAfter > 0) {
+      sendError(res, 429, 'Too many messages. Please wait a moment.', { 'Retry-After': String(retryAfter) });
+      return;
+    }
+
+    if (providers.length === 0) {
+      sendError(res, 503, 'The assistant is not configured.');
+      return;
+    }
+
+    let request: ChatRequest;
+    try {
+      request = parseChatRequest(await readBody(req, MAX_BODY_BYTES));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendError(res, error.status, error.message);
+      } else {
+        sendError(res, 400, 'Could not read request.');
+      }
+      return;
+    }
+
+    // Stop the upstream request if the visitor presses stop or leaves
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+
+    const projects = await loadProjects().catch(() => []);
+    const client = createFallbackClient(providers, buildSystemInstruction(projects, request.locale));
+
+    try {
+      for await (const chunk of client.streamReply(request.history, request.message, controller.signal)) {
+        if (!res.headersSent) {
+          res.writeHead(200, {
+            'Content-Type': 'text/plain; charset=utf-8',
+            'Cache-Control': 'no-store',
+            'X-Content-Type-Options': 'nosniff'
+          });
+        }
+        res.write(chunk);
+      }
+      if (!res.headersSent) {
+        sendError(res, 502, 'The model returned an empty reply.');
+        return;
+      }
+      res.end();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Chat proxy error:', error);
+      if (!res.headersSent) {
+        sendError(res, 502, 'The model is unavailable right now.');
+      } else {
+        // Headers are gone; cutting the stream is the only signal left
+        res.destroy();
+      }
+    }
+  };
+};
@@ -0,0 +1,80 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+
+// Small helpers shared by the API handlers (chat proxy, analytics collector). Each
+// handler works as a plain node:http handler and as Connect middleware in Vite.
+
+// --- Types ---
+export type Handler = (req: IncomingMessage, res: ServerResponse) => void;
+
+export interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+}
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// --- Rate limiting ---
+
+// Fixed-window counter per IP. Returns how many seconds the caller has to wait,
+// or 0 when the request is allowed.
+export const createRateLimiter = ({ windowMs, max }: RateLimitOptions) => {
+  const hits = new Map<string, { count: number; resetAt: number }>();
+
+  return (ip: string, now = Date.now()): number => {
+    // Drop expired windows so the map doesn't grow with every visitor
+    for (const [key, entry] of hits) {
+      if (entry.resetAt <= now) hits.delete(key);
+    }
+
+    const entry = hits.get(ip);
+    if (!entry) {
+      hits.set(ip, { count: 1, resetAt: now + windowMs });
+      return 0;
+    }
+    if (entry.count >= max) {
+      return Math.ceil((entry.resetAt - now) / 1000);
+    }
+    entry.count++;
+    return 0;
+  };
+};
+
+// --- Requests ---
+
+// Rejects with 413 once the body passes `maxBytes`. The rest of the body is read and
+// thrown away rather than the socket destroyed, so the client still gets the 413.
+export const readBody = (req: IncomingMessage, maxBytes: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      if (size > maxBytes) return;
+      size += chunk.length;
+      if (size > maxBytes) {
+        chunks.length = 0;
+        reject(new HttpError(413, 'Request is too large.'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+export const clientIp = (req: IncomingMessage, trustProxy?: boolean) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+// --- Responses ---
+export const sendError = (res: ServerResponse, status: number, error: string, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ error }));
+};
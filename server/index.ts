@@ -0,0 +1,82 @@
+import { createReadStream, existsSync, statSync } from 'fs';
+import { createServer } from 'http';
+import path from 'path';
+import { ANALYTICS_ENDPOINT } from '../lib/analytics';
+import { CHAT_ENDPOINT } from '../lib/chat';
+import { matchRoute, safeDecode } from '../lib/router';
+import { analyticsOptionsFromEnv, createAnalyticsHandler } from './analytics';
+import { createChatHandler } from './chat';
+import { providersFromEnv } from './providers';
+
+// Production server: serves the built site from dist/, the chat proxy at /api/chat and
+// the analytics collector at /api/events.
+// Provider keys are read here and never reach the browser.
+
+const PORT = Number(process.env.PORT) || 3000;
+const DIST = path.resolve(import.meta.dirname, '../dist');
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+  '.txt': 'text/plain; charset=utf-8',
+  '.xml': 'application/xml'
+};
+
+const handleChat = createChatHandler({
+  providers: providersFromEnv(process.env),
+  trustProxy: process.env.TRUST_PROXY === 'true'
+});
+
+const handleAnalytics = createAnalyticsHandler(analyticsOptionsFromEnv(process.env));
+
+const resolveFile = (urlPath: string) => {
+  const decoded = safeDecode(urlPath);
+  if (decoded === null) return null;
+  const file = path.join(DIST, path.normalize(decoded));
+  if (!file.startsWith(DIST)) return null;
+  if (existsSync(file) && statSync(file).isFile()) return file;
+  // Pre-rendered pages such as dist/projects/<repo>/index.html
+  const index = path.join(file, 'index.html');
+  if (existsSync(index)) return index;
+  return null;
+};
+
+createServer((req, res) => {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+  if (pathname === CHAT_ENDPOINT) {
+    handleChat(req, res);
+    return;
+  }
+
+  if (pathname === ANALYTICS_ENDPOINT) {
+    handleAnalytics(req, res);
+    return;
+  }
+
+  // Paths without a pre-rendered page: the 404 page when no route matches (malformed
+  // paths included), else the app shell (e.g. a repo newer than the build), which the
+  // browser renders itself
+  let file = resolveFile(pathname);
+  let status = 200;
+  if (!file) {
+    const notFound = path.join(DIST, '404.html');
+    const shell = path.join(DIST, 'shell.html');
+    if (matchRoute(pathname).name === 'not-found' && existsSync(notFound)) {
+      file = notFound;
+      status = 404;
+    } else {
+      file = existsSync(shell) ? shell : path.join(DIST, 'index.html');
+    }
+  }
+  res.writeHead(status, { 'Content-Type': MIME_TYPES[path.extname(file)] || 'application/octet-stream' });
+  createReadStream(file).pipe(res);
+}).listen(PORT, () => {
+  console.log(`CHRISTTech portfolio on http://localhost:${PORT}`);
+});
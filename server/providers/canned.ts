@@ -0,0 +1,42 @@
+import type { ChatModelClient } from '../../lib/chat';
+import { SITE } from '../../lib/site';
+
+export interface CannedProviderConfig {
+  type: 'canned';
+  // Pause between streamed words; 0 for tests
+  delayMs?: number;
+}
+
+// Keyword -> reply. The first rule whose keyword appears in the question wins.
+const CANNED_REPLIES: { keywords: string[]; reply: string }[] = [
+  {
+    keywords: ['robot', 'ros', 'arduino'],
+    reply: `${SITE.name} builds robotics systems with ROS, Arduino and Raspberry Pi, with a focus on healthcare robotics. The Projects section lists the public repositories.`
+  },
+  {
+    keywords: ['hire', 'available', 'freelance', 'work with'],
+    reply: `Yes, ${SITE.name} is available for new projects. The contact form at the bottom of the page is the fastest way to get in touch.`
+  },
+  {
+    keywords: ['tutor', 'teach', 'student'],
+    reply: `${SITE.name} tutors young aspiring robotics engineers. Use the contact form to ask about sessions.`
+  }
+];
+
+// Deterministic stand-in for a real model: the same conversation always streams
+// the same reply, so tests and offline demos need no key or network.
+export const createCannedProvider = ({ delayMs = 30 }: CannedProviderConfig): ChatModelClient => ({
+  async *streamReply(history, userMsg, signal) {
+    const question = userMsg.toLowerCase();
+    const rule = CANNED_REPLIES.find(({ keywords }) => keywords.some(keyword => question.includes(keyword)));
+    const turns = history.filter(msg => msg.role === 'user' && !msg.error).length + 1;
+    const reply = rule?.reply
+      ?? `[canned] Turn ${turns}. You asked: "${userMsg}". This reply comes from the canned provider, so no model was called.`;
+
+    for (const word of reply.split(/(?<= )/)) {
+      if (signal.aborted) return;
+      if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+      yield word;
+    }
+  }
+});
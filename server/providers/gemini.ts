@@ -0,0 +1,28 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { buildChatHistory, type ChatModelClient } from '../../lib/chat';
+
+export interface GeminiProviderConfig {
+  type: 'gemini';
+  apiKey: string;
+  model: string;
+}
+
+// Talks to Gemini directly. Only ever constructed on the server, where the key lives.
+export const createGeminiProvider = ({ apiKey, model: modelId }: GeminiProviderConfig, systemInstruction: string): ChatModelClient => {
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const model = genAI.getGenerativeModel({
+    model: modelId,
+    systemInstruction,
+  });
+
+  return {
+    async *streamReply(history, userMsg, signal) {
+      const chat = model.startChat({ history: buildChatHistory(history) });
+      const result = await chat.sendMessageStream(userMsg, { signal });
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) yield text;
+      }
+    }
+  };
+};
@@ -0,0 +1,80 @@
+import type { ChatModelClient } from '../../lib/chat';
+import { createCannedProvider, type CannedProviderConfig } from './canned';
+import { createGeminiProvider, type GeminiProviderConfig } from './gemini';
+import { createOpenAIProvider, type OpenAIProviderConfig } from './openai';
+
+export type ProviderConfig = GeminiProviderConfig | OpenAIProviderConfig | CannedProviderConfig;
+
+// --- Config ---
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash';
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'llama3.1';
+
+export const createProvider = (config: ProviderConfig, systemInstruction: string): ChatModelClient => {
+  switch (config.type) {
+    case 'gemini':
+      return createGeminiProvider(config, systemInstruction);
+    case 'openai':
+      return createOpenAIProvider(config, systemInstruction);
+    case 'canned':
+      return createCannedProvider(config);
+  }
+};
+
+// Tries each provider in order and moves on to the next one when a provider fails
+// before streaming anything. Once text has reached the visitor a failure is final,
+// since a second model can't continue the first one's half-written answer.
+export const createFallbackClient = (configs: ProviderConfig[], systemInstruction: string): ChatModelClient => ({
+  async *streamReply(history, userMsg, signal) {
+    let lastError: unknown = new Error('No chat providers are configured.');
+
+    for (const config of configs) {
+      let started = false;
+      try {
+        for await (const chunk of createProvider(config, systemInstruction).streamReply(history, userMsg, signal)) {
+          started = true;
+          yield chunk;
+        }
+        if (started) return;
+        lastError = new Error(`${config.type} returned an empty reply.`);
+      } catch (error) {
+        if (started || signal.aborted) throw error;
+        console.warn(`Chat provider "${config.type}" failed, trying the next one:`, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+});
+
+// Reads the provider chain from environment variables, e.g.
+//   CHAT_PROVIDERS=gemini,openai  GEMINI_MODEL=gemini-2.0-flash  OPENAI_BASE_URL=http://localhost:11434/v1
+// Providers whose credentials are missing are skipped. CHAT_MOCK=true forces the canned provider.
+export const providersFromEnv = (env: Record<string, string | undefined>): ProviderConfig[] => {
+  if (env.CHAT_MOCK === 'true') return [{ type: 'canned' }];
+
+  const names = (env.CHAT_PROVIDERS || 'gemini').split(',').map(name => name.trim()).filter(Boolean);
+  const configs: ProviderConfig[] = [];
+
+  for (const name of names) {
+    if (name === 'gemini') {
+      if (env.GEMINI_API_KEY) {
+        configs.push({ type: 'gemini', apiKey: env.GEMINI_API_KEY, model: env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL });
+      }
+    } else if (name === 'openai') {
+      configs.push({
+        type: 'openai',
+        baseUrl: env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+        model: env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL,
+        apiKey: env.OPENAI_API_KEY
+      });
+    } else if (name === 'canned') {
+      configs.push({ type: 'canned' });
+    } else {
+      console.warn(`Unknown chat provider "${name}" in CHAT_PROVIDERS, ignoring it.`);
+    }
+  }
+
+  return configs;
+};
@@ -0,0 +1,56 @@
+import { buildChatHistory, type ChatModelClient } from '../../lib/chat';
+
+export interface OpenAIProviderConfig {
+  type: 'openai';
+  // e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+// Any server speaking the OpenAI chat completions API with `stream: true`.
+export const createOpenAIProvider = ({ baseUrl, model, apiKey }: OpenAIProviderConfig, systemInstruction: string): ChatModelClient => ({
+  async *streamReply(history, userMsg, signal) {
+    const messages = [
+      { role: 'system', content: systemInstruction },
+      ...buildChatHistory(history).map(turn => ({
+        role: turn.role === 'model' ? 'assistant' : 'user',
+        content: turn.parts.map(part => part.text).join('\n\n')
+      })),
+      { role: 'user', content: userMsg }
+    ];
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({ model, messages, stream: true }),
+      signal
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`OpenAI-compatible request failed (${response.status})`);
+    }
+
+    // Server-sent events: one `data: {...}` line per delta, ending with `data: [DONE]`
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!line.startsWith('data:') || !data) continue;
+        if (data === '[DONE]') return;
+        const text = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    }
+  }
+});
@@ -0,0 +1,79 @@
+import { gzipSync } from 'zlib';
+import type { Plugin } from 'vite';
+import { ANALYTICS_ENDPOINT } from '../lib/analytics';
+import { CHAT_ENDPOINT } from '../lib/chat';
+import { contactConfigProblems } from '../lib/contact-providers';
+import { createAnalyticsHandler, type AnalyticsHandlerOptions } from './analytics';
+import { createChatHandler, type ChatHandlerOptions } from './chat';
+
+// Mounts the chat proxy on the Vite dev and preview servers, so `npm run dev`
+// behaves like the production server without exposing the key to the bundle.
+export const chatApiPlugin = (options: ChatHandlerOptions): Plugin => {
+  const handler = createChatHandler(options);
+  return {
+    name: 'christtech-chat-api',
+    configureServer(server) {
+      server.middlewares.use(CHAT_ENDPOINT, handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(CHAT_ENDPOINT, handler);
+    }
+  };
+};
+
+// Mounts the analytics collector on the Vite dev and preview servers, so the
+// collector sink and the /stats dashboard work locally too. Only the dev server shows
+// the dashboard without a token; preview behaves like `npm start`.
+export const analyticsApiPlugin = (options: AnalyticsHandlerOptions): Plugin => ({
+  name: 'christtech-analytics-api',
+  configureServer(server) {
+    server.middlewares.use(ANALYTICS_ENDPOINT, createAnalyticsHandler({ ...options, requireToken: false }));
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(ANALYTICS_ENDPOINT, createAnalyticsHandler(options));
+  }
+});
+
+// Stops `vite build` when the contact form has no working provider, instead of
+// shipping a form that fails for every visitor. The dev server falls back to the mock.
+export const contactConfigPlugin = (env: Record<string, string | undefined>): Plugin => ({
+  name: 'christtech-contact-config',
+  apply: 'build',
+  buildStart() {
+    const problems = contactConfigProblems(env);
+    if (problems.length > 0) {
+      this.error(`Contact form is not configured:\n  - ${problems.join('\n  - ')}\nSet it in .env.local (see .env.local.example).`);
+    }
+  }
+});
+
+// Gzipped size limits in KB. The entry covers the JavaScript every page loads;
+// lazy chunks (Markdown, the chat) load on demand and get their own limit.
+export interface BundleBudget {
+  entry: number;
+  chunk: number;
+  css: number;
+}
+
+export const BUNDLE_BUDGET: BundleBudget = { entry: 100, chunk: 120, css: 20 };
+
+// Fails `vite build` when a file goes over the budget, so a heavy dependency is
+// noticed when it's added rather than by visitors on slow connections.
+export const bundleBudgetPlugin = (budget: BundleBudget = BUNDLE_BUDGET): Plugin => ({
+  name: 'christtech-bundle-budget',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const over: string[] = [];
+    for (const file of Object.values(bundle)) {
+      const isCss = file.type === 'asset' && file.fileName.endsWith('.css');
+      if (file.type !== 'chunk' && !isCss) continue;
+
+      const limit = isCss ? budget.css : file.type === 'chunk' && file.isEntry ? budget.entry : budget.chunk;
+      const size = gzipSync(file.type === 'chunk' ? file.code : file.source).length / 1024;
+      if (size > limit) over.push(`${file.fileName}: ${size.toFixed(1)} KB gzipped, budget ${limit} KB`);
+    }
+    if (over.length > 0) {
+      this.error(`Bundle is over its size budget:\n  - ${over.join('\n  - ')}\nSee BUNDLE_BUDGET in server/vite-plugin.ts.`);
+    }
+  }
+});
@@ -0,0 +1,37 @@
+import type { Config } from 'tailwindcss';
+
+// Compiled at build time; only classes found in `content` end up in the CSS. Palette
+// shades come from the theme variables in styles.css, so the same utility classes follow
+// the light and dark themes (see lib/theme.ts).
+const themed = (name: string) => `rgb(var(--${name}) / <alpha-value>)`;
+
+export default {
+  content: ['./index.html', './index.tsx', './components/**/*.tsx', './lib/**/*.ts', './data/**/*.ts'],
+  theme: {
+    extend: {
+      colors: {
+        white: themed('color-white'),
+        black: themed('color-black'),
+        // Text on blue/purple fills and gradients stays white in both themes
+        'on-accent': '#ffffff',
+        slate: { 100: themed('slate-100'), 900: themed('slate-900'), 950: themed('slate-950') },
+        gray: {
+          200: themed('gray-200'), 300: themed('gray-300'), 400: themed('gray-400'),
+          500: themed('gray-500'), 600: themed('gray-600')
+        },
+        blue: { 300: themed('blue-300'), 400: themed('blue-400'), 500: themed('blue-500') },
+        purple: { 400: themed('purple-400') },
+        pink: { 400: themed('pink-400') },
+        emerald: { 400: themed('emerald-400') },
+        green: { 400: themed('green-400') },
+        yellow: { 300: themed('yellow-300'), 400: themed('yellow-400') },
+        amber: { 200: themed('amber-200') },
+        red: { 300: themed('red-300'), 400: themed('red-400') }
+      },
+      // Stopped under prefers-reduced-motion, see styles.css
+      animation: {
+        'spin-slow': 'spin 20s linear infinite'
+      }
+    }
+  }
+} satisfies Config;
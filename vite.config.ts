@@ -1,6 +1,9 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { analyticsOptionsFromEnv } from './server/analytics';
+import { providersFromEnv } from './server/providers';
+import { analyticsApiPlugin, bundleBudgetPlugin, chatApiPlugin, contactConfigPlugin } from './server/vite-plugin';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +12,18 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      plugins: [
+        react(),
+        // Model keys stay on the server; the browser only talks to /api/chat
+        chatApiPlugin({ providers: providersFromEnv(env) }),
+        analyticsApiPlugin(analyticsOptionsFromEnv(env)),
+        contactConfigPlugin(env),
+        bundleBudgetPlugin()
+      ],
+      build: {
+        // Font subsets stay separate files, loaded only for the scripts a page uses,
+        // instead of being inlined into the stylesheet
+        assetsInlineLimit: file => (/\.woff2?$/.test(file) ? false : undefined)
       },
       resolve: {
         alias: {
@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config';
+import react from '@vitejs/plugin-react';
+
+// Tests sit next to the code they cover as *.test.ts(x) and run in Node. Files that
+// render components or need browser APIs opt into jsdom with a
+// `// @vitest-environment jsdom` comment at the top.
+export default defineConfig({
+  plugins: [react()],
+  test: {
+    include: ['**/*.test.{ts,tsx}'],
+    exclude: ['node_modules/**', 'dist/**'],
+    restoreMocks: true,
+    unstubGlobals: true
+  }
+});